@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { AdBanner, AdText } from '@gravity-ai/react';
-import type { AdResponse, AdTheme, AdSize } from '@gravity-ai/react';
+import type { AdResponse, AdThemePreset, AdSize } from '@gravity-ai/react';
 
 // Mock ad data for testing (simulates API response)
 const mockAd: AdResponse = {
@@ -12,11 +12,11 @@ const mockAd: AdResponse = {
 
 function App() {
   const [ad, setAd] = useState<AdResponse | null>(mockAd);
-  const [theme, setTheme] = useState<AdTheme>('dark');
+  const [theme, setTheme] = useState<AdThemePreset | 'auto'>('dark');
   const [size, setSize] = useState<AdSize>('medium');
   const [showLabel, setShowLabel] = useState(true);
 
-  const themes: AdTheme[] = ['light', 'dark', 'minimal', 'branded'];
+  const themes: (AdThemePreset | 'auto')[] = ['light', 'dark', 'minimal', 'branded', 'auto'];
   const sizes: AdSize[] = ['small', 'medium', 'large', 'responsive'];
 
   return (
@@ -50,7 +50,7 @@ function App() {
             <label style={{ display: 'block', marginBottom: '8px', color: '#a0a0a0' }}>Theme</label>
             <select 
               value={theme} 
-              onChange={(e) => setTheme(e.target.value as AdTheme)}
+              onChange={(e) => setTheme(e.target.value as AdThemePreset | 'auto')}
               style={{
                 width: '100%',
                 padding: '10px',
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AdCache, LocalStorageStore, MemoryCacheStore, defaultCacheKey } from './cache';
+import { AdParams } from './types';
+
+const params: AdParams = {
+  messages: [{ role: 'user', content: 'What laptop should I buy?' }],
+  sessionId: 'session-123',
+  placements: [{ placement: 'below_response', placement_id: 'main' }],
+};
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns stored values until they expire', () => {
+    vi.useFakeTimers();
+    const store = new MemoryCacheStore();
+
+    store.set('a', 1, 1000);
+    expect(store.get('a')).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(store.get('a')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+
+    store.set('a', 1, 1000);
+    store.set('b', 2, 1000);
+    store.get('a');
+    store.set('c', 3, 1000);
+
+    expect(store.get('a')).toBe(1);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBe(3);
+    expect(store.size).toBe(2);
+  });
+
+  it('deletes entries', () => {
+    const store = new MemoryCacheStore();
+    store.set('a', 1, 1000);
+    store.delete('a');
+    expect(store.get('a')).toBeUndefined();
+  });
+});
+
+describe('LocalStorageStore', () => {
+  /** A minimal Web Storage implementation */
+  const createStorage = () => {
+    const items = new Map<string, string>();
+    return {
+      items,
+      storage: {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value),
+        removeItem: (key: string) => void items.delete(key),
+      } as Storage,
+    };
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores prefixed values until they expire', () => {
+    vi.useFakeTimers();
+    const { items, storage } = createStorage();
+    const store = new LocalStorageStore('app:', storage);
+
+    store.set('a', { count: 1 }, 1000);
+    expect(store.get('a')).toEqual({ count: 1 });
+    expect(items.has('app:a')).toBe(true);
+
+    vi.advanceTimersByTime(1000);
+    expect(store.get('a')).toBeUndefined();
+    expect(items.has('app:a')).toBe(false);
+  });
+
+  it('treats unreadable and unwritable storage as empty', () => {
+    const storage = {
+      getItem: () => 'not json',
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+      removeItem: () => {},
+    } as unknown as Storage;
+    const store = new LocalStorageStore('gravity:', storage);
+
+    expect(() => store.set('a', 1, 1000)).not.toThrow();
+    expect(store.get('a')).toBeUndefined();
+  });
+
+  it('does nothing outside the browser', () => {
+    const store = new LocalStorageStore();
+    store.set('a', 1, 1000);
+    expect(store.get('a')).toBeUndefined();
+  });
+});
+
+describe('defaultCacheKey', () => {
+  it('is stable regardless of key order', () => {
+    const reordered: AdParams = {
+      placements: [{ placement_id: 'main', placement: 'below_response' }],
+      sessionId: 'session-123',
+      messages: [{ content: 'What laptop should I buy?', role: 'user' }],
+    };
+    expect(defaultCacheKey(reordered)).toBe(defaultCacheKey(params));
+  });
+
+  it('changes when the conversation changes', () => {
+    const next = { ...params, messages: [...params.messages, { role: 'assistant' as const, content: 'Budget?' }] };
+    expect(defaultCacheKey(next)).not.toBe(defaultCacheKey(params));
+  });
+
+  it('changes when the placements change', () => {
+    const other = { ...params, placements: [{ placement: 'above_response' as const, placement_id: 'main' }] };
+    expect(defaultCacheKey(other)).not.toBe(defaultCacheKey(params));
+  });
+
+  it('is prefixed with the session id', () => {
+    expect(defaultCacheKey(params).startsWith('session-123:')).toBe(true);
+  });
+});
+
+describe('AdCache', () => {
+  const ads = [
+    { adText: 'First', impUrl: 'https://imp/1' },
+    { adText: 'Second', impUrl: 'https://imp/2' },
+  ];
+
+  it('returns cached ads', async () => {
+    const cache = new AdCache();
+    await cache.set(params, ads);
+    expect(await cache.get(params)).toEqual(ads);
+  });
+
+  it('never serves an ad whose impression was fired', async () => {
+    const cache = new AdCache();
+    await cache.set(params, ads);
+
+    await cache.markFired(ads[0]);
+    expect(await cache.get(params)).toEqual([ads[1]]);
+
+    await cache.markFired(ads[1]);
+    expect(await cache.get(params)).toBeUndefined();
+  });
+
+  it('uses a custom key function', async () => {
+    const cache = new AdCache({ key: (p) => p.sessionId });
+    await cache.set(params, ads);
+    expect(await cache.get({ ...params, messages: [] })).toEqual(ads);
+  });
+
+  it('treats store failures as misses', async () => {
+    const cache = new AdCache({
+      store: {
+        get: () => Promise.reject(new Error('down')),
+        set: () => Promise.reject(new Error('down')),
+        delete: () => undefined,
+      },
+    });
+
+    await expect(cache.set(params, ads)).resolves.toBeUndefined();
+    await expect(cache.markFired(ads[0])).resolves.toBeUndefined();
+    expect(await cache.get(params)).toBeUndefined();
+  });
+});
@@ -0,0 +1,289 @@
+import { Ad, AdParams } from './types';
+
+/**
+ * Key-value store backing the response cache
+ *
+ * @description Implement this interface to share the cache across processes, e.g. with Redis.
+ * Values are JSON-serializable. Methods may be synchronous or return promises.
+ *
+ * @example
+ * ```typescript
+ * const redisStore: CacheStore = {
+ *   get: async (key) => JSON.parse((await redis.get(key)) ?? 'null') ?? undefined,
+ *   set: async (key, value, ttlMs) => { await redis.set(key, JSON.stringify(value), 'PX', ttlMs); },
+ *   delete: async (key) => { await redis.del(key); },
+ * };
+ * ```
+ */
+export interface CacheStore {
+  /** Read a value, or undefined when missing or expired */
+  get(key: string): unknown | Promise<unknown>;
+  /** Write a value that expires after `ttlMs` milliseconds */
+  set(key: string, value: unknown, ttlMs: number): void | Promise<void>;
+  /** Remove a value */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Response cache configuration for `ClientParams.cache`
+ * @example
+ * ```typescript
+ * const client = new Client('your-api-key', {
+ *   cache: { ttlMs: 30000, maxEntries: 500 }
+ * });
+ * ```
+ */
+export interface CacheOptions {
+  /**
+   * How long responses are cached in milliseconds
+   * @default 60000
+   */
+  ttlMs?: number;
+  /**
+   * Maximum number of entries in the default in-memory store, least recently used evicted first
+   * @default 100
+   */
+  maxEntries?: number;
+  /**
+   * Compute the cache key for a request
+   * @default defaultCacheKey
+   */
+  key?: (params: AdParams) => string;
+  /**
+   * Store for cached responses
+   * @default a MemoryCacheStore with `maxEntries`
+   */
+  store?: CacheStore;
+}
+
+/**
+ * In-memory cache store with TTL and least-recently-used eviction
+ */
+export class MemoryCacheStore implements CacheStore {
+  /** Entries in least to most recently used order */
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  /** Maximum number of entries */
+  private maxEntries: number;
+
+  /**
+   * Create a new in-memory store
+   *
+   * @param maxEntries - Maximum number of entries before the least recently used is evicted
+   */
+  constructor(maxEntries = 100) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /** Number of entries currently held, including expired ones not yet evicted */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Cache store backed by `localStorage`, or any Web Storage object
+ *
+ * @description Keeps values across page loads in the browser, e.g. for frequency capping.
+ * Values that can't be read or written, such as when storage is full or disabled,
+ * are treated as missing.
+ *
+ * @example
+ * ```typescript
+ * const client = new Client('your-api-key', {
+ *   frequencyCap: { maxAds: 5, store: new LocalStorageStore() }
+ * });
+ * ```
+ */
+export class LocalStorageStore implements CacheStore {
+  /** The backing storage, or undefined outside the browser */
+  private storage: Storage | undefined;
+
+  /** Prefix for keys in the storage */
+  private prefix: string;
+
+  /**
+   * Create a new localStorage store
+   *
+   * @param prefix - Prefix for keys, to keep them apart from the page's own (default: "gravity:")
+   * @param storage - The storage to use (default: `localStorage`)
+   */
+  constructor(prefix = 'gravity:', storage?: Storage) {
+    this.prefix = prefix;
+    this.storage = storage ?? (typeof localStorage === 'undefined' ? undefined : localStorage);
+  }
+
+  get(key: string): unknown {
+    try {
+      const entry = JSON.parse(this.storage?.getItem(this.prefix + key) ?? 'null');
+      if (!entry || typeof entry.expiresAt !== 'number') {
+        return undefined;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        this.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    try {
+      this.storage?.setItem(this.prefix + key, JSON.stringify({ value, expiresAt: Date.now() + ttlMs }));
+    } catch {
+      // Storage is full or disabled
+    }
+  }
+
+  delete(key: string): void {
+    try {
+      this.storage?.removeItem(this.prefix + key);
+    } catch {
+      // Storage is disabled
+    }
+  }
+}
+
+/**
+ * 53-bit string hash (cyrb53), used to keep cache keys short
+ * @internal
+ */
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Default cache key: the session plus a hash of everything that affects targeting
+ *
+ * @description Two requests share a key when they have the same `sessionId`, messages,
+ * placements, user and device data, and targeting options.
+ */
+export function defaultCacheKey(params: AdParams): string {
+  const { sessionId, ...rest } = params;
+  return `${sessionId}:${hashString(stableStringify(rest))}`;
+}
+
+/**
+ * JSON.stringify with object keys sorted, so key order does not change the result
+ * @internal
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Response cache used by the Client
+ *
+ * @description Caches filled responses and remembers which impression URLs were fired,
+ * so an ad is never served from the cache after its impression was counted.
+ * Store failures are treated as cache misses so they never fail a request.
+ *
+ * @internal
+ */
+export class AdCache {
+  private ttlMs: number;
+  private key: (params: AdParams) => string;
+  private store: CacheStore;
+
+  constructor(options: CacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60000;
+    this.key = options.key ?? defaultCacheKey;
+    this.store = options.store ?? new MemoryCacheStore(options.maxEntries ?? 100);
+  }
+
+  /**
+   * Read cached ads for a request, leaving out ads whose impression was already fired
+   * @returns The cached ads, or undefined on a miss
+   */
+  async get(params: AdParams): Promise<Ad[] | undefined> {
+    try {
+      const cached = await this.store.get(`ads:${this.key(params)}`);
+      if (!Array.isArray(cached)) {
+        return undefined;
+      }
+
+      const ads: Ad[] = [];
+      for (const ad of cached as Ad[]) {
+        if (!ad.impUrl || !(await this.store.get(`fired:${ad.impUrl}`))) {
+          ads.push(ad);
+        }
+      }
+
+      return ads.length > 0 ? ads : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Cache the ads returned for a request */
+  async set(params: AdParams, ads: Ad[]): Promise<void> {
+    try {
+      await this.store.set(`ads:${this.key(params)}`, ads, this.ttlMs);
+    } catch {
+      // A failed write only costs a future cache hit
+    }
+  }
+
+  /** Remember that an ad's impression was fired */
+  async markFired(ad: Ad): Promise<void> {
+    if (!ad.impUrl) {
+      return;
+    }
+    try {
+      await this.store.set(`fired:${ad.impUrl}`, true, this.ttlMs);
+    } catch {
+      // A failed write only risks serving the ad again from the cache
+    }
+  }
+}
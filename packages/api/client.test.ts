@@ -1,108 +1,206 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import axios from 'axios';
-import { Client } from './client';
+import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { Client, ClientParams } from './client';
 import { AdParams } from './types';
+import { Transport, createAxiosTransport, createFetchTransport } from './transport';
+import {
+  AuthenticationError,
+  CancelledError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from './errors';
 
-// Mock axios
-vi.mock('axios');
+/**
+ * Fake for the HTTP layer underneath a transport.
+ * Each transport gets one, so the whole suite runs against both.
+ */
+interface TransportHarness {
+  /** The transport under test */
+  transport: Transport;
+  /** The mocked fetch function or axios `request` method */
+  mock: Mock;
+  /** Respond to the next request */
+  replyOnce(status: number, body?: unknown, headers?: Record<string, string>): void;
+  /** Respond to every request */
+  reply(status: number, body?: unknown, headers?: Record<string, string>): void;
+  /** Fail the next request with a network error code */
+  failOnce(code: string): void;
+  /** Never respond, until the request times out or is aborted */
+  hang(): void;
+  /** Requests received so far */
+  requests(): { method: string; url: string; headers: Record<string, string>; body: any }[];
+}
 
-describe('Gravity Client', () => {
+function createFetchHarness(): TransportHarness {
+  const mock = vi.fn();
+  const toResponse = (status: number, body?: unknown, headers?: Record<string, string>) =>
+    new Response(body === undefined ? null : JSON.stringify(body), { status, headers });
+
+  return {
+    transport: createFetchTransport({ fetch: mock }),
+    mock,
+    replyOnce: (status, body, headers) => {
+      mock.mockImplementationOnce(async () => toResponse(status, body, headers));
+    },
+    reply: (status, body, headers) => {
+      mock.mockImplementation(async () => toResponse(status, body, headers));
+    },
+    failOnce: (code) => {
+      mock.mockImplementationOnce(async () => {
+        throw Object.assign(new TypeError('fetch failed'), { cause: { code } });
+      });
+    },
+    hang: () => {
+      mock.mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      }));
+    },
+    requests: () => mock.mock.calls.map(([url, init]) => ({
+      method: init.method,
+      url,
+      headers: init.headers,
+      body: init.body === undefined ? undefined : JSON.parse(init.body),
+    })),
+  };
+}
+
+function createAxiosHarness(): TransportHarness {
+  const mock = vi.fn();
+
+  return {
+    transport: createAxiosTransport({ request: mock } as any),
+    mock,
+    replyOnce: (status, body, headers) => {
+      mock.mockResolvedValueOnce({ status, data: body ?? '', headers: headers ?? {} });
+    },
+    reply: (status, body, headers) => {
+      mock.mockResolvedValue({ status, data: body ?? '', headers: headers ?? {} });
+    },
+    failOnce: (code) => {
+      mock.mockRejectedValueOnce({ isAxiosError: true, code, message: code, request: {} });
+    },
+    hang: () => {
+      mock.mockImplementation((config) => new Promise((_, reject) => {
+        const timer = setTimeout(
+          () => reject({ isAxiosError: true, code: 'ECONNABORTED', message: 'timeout exceeded' }),
+          config.timeout
+        );
+        config.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject({ isAxiosError: true, code: 'ERR_CANCELED', message: 'canceled' });
+        });
+      }));
+    },
+    requests: () => mock.mock.calls.map(([config]) => ({
+      method: config.method,
+      url: config.url,
+      headers: config.headers,
+      body: config.data,
+    })),
+  };
+}
+
+const harnesses: [string, () => TransportHarness][] = [
+  ['fetch', createFetchHarness],
+  ['axios', createAxiosHarness],
+];
+
+describe.each(harnesses)('Gravity Client (%s transport)', (_name, createHarness) => {
   let client: Client;
+  let http: TransportHarness;
   const apiKey = 'test-api-key';
-  // Mock for the axios instance
-  const mockPost = vi.fn();
-  
-  beforeEach(() => {
-    vi.clearAllMocks();
-    
-    // Setup axios.create mock to return our mock instance
-    // We cast to any here to bypass strict typing on the mock implementation return value
-    (axios.create as any).mockReturnValue({
-        post: mockPost
-    });
-    
-    // Also mock isAxiosError implementation
-    (axios.isAxiosError as any) = vi.fn((payload) => payload?.isAxiosError === true);
+  const params: AdParams = {
+      messages: [{ role: 'user', content: 'hello' }],
+      sessionId: 'test-session',
+      placements: [{ placement: 'below_response', placement_id: 'main' }]
+  };
+  /** Placement fields the client tags single-placement ads with */
+  const slot = { placement: 'below_response', placement_id: 'main' };
+
+  const createClient = (clientParams: ClientParams = {}) =>
+    new Client(apiKey, { transport: http.transport, ...clientParams });
 
-    client = new Client(apiKey);
+  beforeEach(() => {
+    http = createHarness();
+    client = createClient();
   });
 
-  it('should initialize with default endpoint', () => {
-    expect(axios.create).toHaveBeenCalledWith(expect.objectContaining({
-        baseURL: 'https://server.trygravity.ai',
+  it('should send requests to the default endpoint', async () => {
+    http.reply(204);
+
+    await client.getAd(params);
+
+    expect(http.requests()[0]).toMatchObject({
+        method: 'POST',
+        url: 'https://server.trygravity.ai/api/v1/ad',
         headers: expect.objectContaining({
-            'Authorization': `Bearer ${apiKey}`
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json'
         })
-    }));
+    });
   });
 
-  it('should initialize with custom endpoint', () => {
+  it('should send requests to a custom endpoint', async () => {
     const customEndpoint = 'https://custom.api.com';
-    new Client(apiKey, { endpoint: customEndpoint });
-    
-    expect(axios.create).toHaveBeenCalledWith(expect.objectContaining({
-        baseURL: customEndpoint
-    }));
+    http.reply(204);
+
+    await createClient({ endpoint: customEndpoint }).getAd(params);
+
+    expect(http.requests()[0].url).toBe(`${customEndpoint}/api/v1/ad`);
   });
 
-  it('should return ad response when API returns success', async () => {
-    const mockResponse = {
-        data: [{
-            adText: 'Buy our product!',
-            impUrl: 'http://imp.url',
-            clickUrl: 'http://click.url'
-        }],
-        status: 200
-    };
-    mockPost.mockResolvedValue(mockResponse);
+  it('should merge client defaults into the request body', async () => {
+    http.reply(204);
 
-    const params: AdParams = {
-        messages: [{ role: 'user', content: 'hello' }],
-        sessionId: 'test-session',
-        placements: [{ placement: 'below_response', placement_id: 'main' }]
-    };
+    await createClient({ excludedTopics: ['politics'], relevancy: 0.4 }).getAd(params);
+
+    expect(http.requests()[0].body).toEqual({
+        ...params,
+        excludedTopics: ['politics'],
+        relevancy: 0.4
+    });
+  });
+
+  it('should send the default locale unless the request sets its own', async () => {
+    http.reply(204);
+    const localized = createClient({ locale: 'he-IL' });
+
+    await localized.getAd(params);
+    await localized.getAd({ ...params, locale: 'ar-EG' });
+
+    expect(http.requests()[0].body.locale).toBe('he-IL');
+    expect(http.requests()[1].body.locale).toBe('ar-EG');
+  });
+
+  it('should return ad response when API returns success', async () => {
+    http.reply(200, [{
+        adText: 'Buy our product!',
+        impUrl: 'http://imp.url',
+        clickUrl: 'http://click.url'
+    }]);
 
     const result = await client.getAd(params);
 
     expect(result).toEqual([{
         adText: 'Buy our product!',
         impUrl: 'http://imp.url',
-        clickUrl: 'http://click.url'
+        clickUrl: 'http://click.url',
+        ...slot
     }]);
   });
 
   it('should return null when API returns 204 (no content)', async () => {
-    mockPost.mockResolvedValue({ status: 204 });
-
-    const params: AdParams = {
-        messages: [{ role: 'user', content: 'hello' }],
-        sessionId: 'test-session',
-        placements: [{ placement: 'below_response', placement_id: 'test-slot' }]
-    };
+    http.reply(204);
 
     const result = await client.getAd(params);
     expect(result).toBeNull();
   });
-  
+
   it('should return null and log error on API failure', async () => {
     const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-    
-    const error = {
-        isAxiosError: true,
-        message: 'Network Error',
-        response: {
-            status: 500,
-            statusText: 'Internal Server Error',
-            data: { error: 'fail' }
-        }
-    };
-    mockPost.mockRejectedValue(error);
-
-    const params: AdParams = {
-        messages: [{ role: 'user', content: 'hello' }],
-        sessionId: 'test-session',
-        placements: [{ placement: 'below_response', placement_id: 'test-slot' }]
-    };
+    http.reply(500, { error: 'fail' });
 
     const result = await client.getAd(params);
 
@@ -111,5 +209,803 @@ describe('Gravity Client', () => {
 
     consoleSpy.mockRestore();
   });
+
+  describe('getAdResult', () => {
+    it('should return filled result with ads', async () => {
+      const ads = [{ adText: 'Buy our product!' }];
+      http.reply(200, ads);
+
+      const result = await client.getAdResult(params);
+      expect(result).toEqual({ kind: 'filled', ads: [{ ...ads[0], ...slot }] });
+    });
+
+    it('should return no_fill on 204', async () => {
+      http.reply(204);
+
+      const result = await client.getAdResult(params);
+      expect(result).toEqual({ kind: 'no_fill' });
+    });
+
+    it('should return AuthenticationError on 401 without logging', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      http.reply(401, { error: 'unauthorized', message: 'Invalid API key' });
+
+      const result = await client.getAdResult(params);
+
+      expect(result.kind).toBe('error');
+      if (result.kind !== 'error') return;
+      expect(result.error).toBeInstanceOf(AuthenticationError);
+      expect(result.error.status).toBe(401);
+      expect(result.error.message).toBe('Invalid API key');
+      expect(consoleSpy).not.toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should return RateLimitError with retry-after on 429', async () => {
+      http.reply(429, { error: 'rate_limited' }, { 'Retry-After': '3' });
+
+      const result = await client.getAdResult(params);
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(RateLimitError);
+      expect((result.error as RateLimitError).retryAfterMs).toBe(3000);
+    });
+
+    it('should return ServerError on 500', async () => {
+      http.reply(500, { error: 'fail' });
+
+      const result = await client.getAdResult(params);
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(ServerError);
+    });
+
+    it('should return TimeoutError when the request times out', async () => {
+      http.hang();
+
+      const result = await createClient({ timeout: 20 }).getAdResult(params);
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(TimeoutError);
+    });
+
+    it('should return NetworkError when no response is received', async () => {
+      http.failOnce('ECONNREFUSED');
+
+      const result = await client.getAdResult(params);
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(NetworkError);
+      expect(result.error.code).toBe('ECONNREFUSED');
+    });
+  });
+
+  describe('retry', () => {
+    it('should not retry by default', async () => {
+      http.reply(503, { error: 'unavailable' });
+
+      const result = await client.getAdResult(params);
+
+      expect(result.kind).toBe('error');
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry retryable errors until success', async () => {
+      const retryingClient = createClient({ retry: { maxAttempts: 3, baseDelayMs: 0 } });
+      http.replyOnce(503, { error: 'unavailable' });
+      http.failOnce('ECONNRESET');
+      http.replyOnce(200, [{ adText: 'Third time lucky' }]);
+
+      const result = await retryingClient.getAdResult(params);
+
+      expect(result).toEqual({ kind: 'filled', ads: [{ adText: 'Third time lucky', ...slot }] });
+      expect(http.mock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop after maxAttempts', async () => {
+      const retryingClient = createClient({ retry: { maxAttempts: 2, baseDelayMs: 0 } });
+      http.reply(503, { error: 'unavailable' });
+
+      const result = await retryingClient.getAdResult(params);
+
+      expect(result.kind).toBe('error');
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const retryingClient = createClient({ retry: { maxAttempts: 3, baseDelayMs: 0 } });
+      http.reply(401, { error: 'unauthorized' });
+
+      await retryingClient.getAdResult(params);
+
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry when Retry-After exceeds the timeout', async () => {
+      const retryingClient = createClient({ timeout: 1000, retry: { maxAttempts: 3 } });
+      http.reply(429, { error: 'rate_limited' }, { 'retry-after': '5' });
+
+      const result = await retryingClient.getAdResult(params);
+
+      expect(result.kind).toBe('error');
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry an attempt that exceeds attemptTimeoutMs', async () => {
+      const retryingClient = createClient({
+          timeout: 5000,
+          retry: { maxAttempts: 2, baseDelayMs: 0, attemptTimeoutMs: 20 }
+      });
+      http.hang();
+
+      const result = await retryingClient.getAdResult(params);
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(TimeoutError);
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancellation and timeouts', () => {
+    it('should use the per-call timeout over the client timeout', async () => {
+      http.hang();
+
+      const start = Date.now();
+      const result = await createClient({ timeout: 5000 }).getAdResult(params, { timeoutMs: 20 });
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(TimeoutError);
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it('should not send a request when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await client.getAdResult(params, { signal: controller.signal });
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(CancelledError);
+      expect(http.mock).not.toHaveBeenCalled();
+    });
+
+    it('should return CancelledError when aborted in flight', async () => {
+      const controller = new AbortController();
+      http.hang();
+
+      const pending = client.getAdResult(params, { signal: controller.signal });
+      controller.abort();
+      const result = await pending;
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(CancelledError);
+    });
+
+    it('should not retry after cancellation', async () => {
+      const retryingClient = createClient({ retry: { maxAttempts: 3, baseDelayMs: 50 } });
+      const controller = new AbortController();
+      http.mock.mockImplementation(() => {
+          setTimeout(() => controller.abort(), 0);
+          return Promise.reject(new TypeError('fetch failed'));
+      });
+
+      const result = await retryingClient.getAdResult(params, { signal: controller.signal });
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(CancelledError);
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null from getAd without logging when cancelled', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await client.getAd(params, { signal: controller.signal });
+
+      expect(result).toBeNull();
+      expect(consoleSpy).not.toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('middleware', () => {
+    it('should let beforeRequest rewrite params and headers', async () => {
+      http.reply(204);
+      client.use({
+          beforeRequest: ({ params, headers }) => ({
+              params: { ...params, device: { ip: '1.2.3.4' } },
+              headers: { ...headers, 'X-Tenant-Id': 'tenant-1' }
+          })
+      });
+
+      await client.getAd(params);
+
+      const [request] = http.requests();
+      expect(request.body.device).toEqual({ ip: '1.2.3.4' });
+      expect(request.headers).toMatchObject({
+          'Authorization': `Bearer ${apiKey}`,
+          'X-Tenant-Id': 'tenant-1'
+      });
+    });
+
+    it('should let afterResponse filter ads', async () => {
+      http.reply(200, [{ adText: 'Safe', brandName: 'Good' }, { adText: 'Unsafe', brandName: 'Bad' }]);
+      client.use({ afterResponse: (ads) => ads.filter((ad) => ad.brandName !== 'Bad') });
+
+      const result = await client.getAd(params);
+
+      expect(result).toEqual([{ adText: 'Safe', brandName: 'Good', ...slot }]);
+    });
+
+    it('should turn an empty afterResponse result into no_fill', async () => {
+      http.reply(200, [{ adText: 'Unsafe' }]);
+      client.use({ afterResponse: () => [] });
+
+      const result = await client.getAdResult(params);
+
+      expect(result).toEqual({ kind: 'no_fill' });
+    });
+
+    it('should let onError replace the error', async () => {
+      http.reply(500, { error: 'fail' });
+      const replacement = new NetworkError('replaced');
+      const onError = vi.fn(() => replacement);
+      client.use({ onError });
+
+      const result = await client.getAdResult(params);
+
+      expect(onError).toHaveBeenCalledWith(expect.any(ServerError), expect.objectContaining({ params: expect.anything() }));
+      expect(result).toEqual({ kind: 'error', error: replacement });
+    });
+
+    it('should run before hooks in order and after hooks in reverse order', async () => {
+      http.reply(200, [{ adText: 'ad' }]);
+      const calls: string[] = [];
+      const middlewareClient = createClient({
+          middleware: [{
+              beforeRequest: () => { calls.push('before:first'); },
+              afterResponse: () => { calls.push('after:first'); }
+          }]
+      });
+      middlewareClient.use({
+          beforeRequest: () => { calls.push('before:second'); },
+          afterResponse: () => { calls.push('after:second'); }
+      });
+
+      await middlewareClient.getAd(params);
+
+      expect(calls).toEqual(['before:first', 'before:second', 'after:second', 'after:first']);
+    });
+
+    it('should run hooks once per call, not per retry', async () => {
+      const beforeRequest = vi.fn();
+      const retryingClient = createClient({ retry: { maxAttempts: 2, baseDelayMs: 0 } }).use({ beforeRequest });
+      http.replyOnce(503, { error: 'unavailable' });
+      http.replyOnce(204);
+
+      await retryingClient.getAd(params);
+
+      expect(beforeRequest).toHaveBeenCalledTimes(1);
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return an error result when a hook throws', async () => {
+      const onError = vi.fn();
+      client.use({
+          beforeRequest: () => { throw new Error('bad context'); },
+          onError
+      });
+
+      const result = await client.getAdResult(params);
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error.message).toBe('bad context');
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(http.mock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redaction', () => {
+    it('should send messages unchanged by default', async () => {
+      http.reply(204);
+
+      await client.getAd({ ...params, messages: [{ role: 'user', content: 'mail jane@example.com' }] });
+
+      expect(http.requests()[0].body.messages[0].content).toBe('mail jane@example.com');
+    });
+
+    it('should redact messages and report what was redacted', async () => {
+      http.reply(204);
+      const onRedact = vi.fn();
+      const redactingClient = createClient({ redaction: { onRedact } });
+
+      await redactingClient.getAd({
+          ...params,
+          messages: [{ role: 'user', content: 'mail jane@example.com' }]
+      });
+
+      expect(http.requests()[0].body.messages[0].content).toBe('mail [REDACTED_EMAIL]');
+      expect(onRedact).toHaveBeenCalledWith({
+          redactedCount: 1,
+          droppedMessages: 0,
+          findings: [{ rule: 'email', action: 'mask', messageIndex: 0, count: 1 }]
+      });
+    });
+
+    it('should redact content injected by middleware', async () => {
+      http.reply(204);
+      const redactingClient = createClient({ redaction: true }).use({
+          beforeRequest: ({ params, headers }) => ({
+              params: { ...params, messages: [{ role: 'user', content: 'call 555-123-4567' }] },
+              headers
+          })
+      });
+
+      await redactingClient.getAd(params);
+
+      expect(http.requests()[0].body.messages[0].content).toBe('call [REDACTED_PHONE]');
+    });
+  });
+
+  describe('context selection', () => {
+    const longConversation: AdParams = {
+        ...params,
+        messages: [
+            { role: 'user', content: 'first' },
+            { role: 'assistant', content: 'second' },
+            { role: 'user', content: 'third' }
+        ]
+    };
+
+    it('should trim messages with the client policy', async () => {
+      http.reply(204);
+
+      await createClient({ context: { maxMessages: 1 } }).getAd(longConversation);
+
+      expect(http.requests()[0].body.messages).toEqual([{ role: 'user', content: 'third' }]);
+    });
+
+    it('should let the per-call policy override the client policy', async () => {
+      http.reply(204);
+
+      await createClient({ context: { maxMessages: 1 } }).getAd(longConversation, {
+          context: { maxMessages: 2 }
+      });
+
+      expect(http.requests()[0].body.messages).toHaveLength(2);
+    });
+  });
+
+  describe('strict mode', () => {
+    const invalidParams: AdParams = { ...params, placements: [], relevancy: 3 };
+
+    it('should send invalid requests when strict mode is off', async () => {
+      http.reply(204);
+
+      await client.getAd(invalidParams);
+
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid requests before any network call', async () => {
+      const result = await createClient({ strict: true }).getAdResult(invalidParams);
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect((result.error as ValidationError).fields).toEqual([
+          { field: 'placements', message: 'must contain 1-10 entries' },
+          { field: 'relevancy', message: 'must be a number between 0 and 1' }
+      ]);
+      expect(http.mock).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages without string content when redaction is on', async () => {
+      const messages = [{ role: 'user', content: 42 }] as unknown as AdParams['messages'];
+
+      const result = await createClient({ strict: true, redaction: true }).getAdResult({ ...params, messages });
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect((result.error as ValidationError).fields).toEqual([
+          { field: 'messages[0].content', message: 'must be a string' }
+      ]);
+      expect(http.mock).not.toHaveBeenCalled();
+    });
+
+    it('should send valid requests', async () => {
+      http.reply(204);
+
+      const result = await createClient({ strict: true }).getAdResult(params);
+
+      expect(result).toEqual({ kind: 'no_fill' });
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cache', () => {
+    const ads = [{ adText: 'Cached ad', impUrl: 'https://imp/1' }];
+
+    it('should not cache by default', async () => {
+      http.reply(200, ads);
+
+      await client.getAd(params);
+      await client.getAd(params);
+
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve repeated requests from the cache', async () => {
+      const cachingClient = createClient({ cache: true });
+      http.reply(200, ads);
+
+      const first = await cachingClient.getAd(params);
+      const second = await cachingClient.getAd(params);
+
+      expect(second).toEqual(first);
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not serve an ad from the cache after markImpression', async () => {
+      const cachingClient = createClient({ cache: true });
+      http.reply(200, ads);
+
+      await cachingClient.getAd(params);
+      await cachingClient.markImpression(ads[0]);
+      await cachingClient.getAd(params);
+
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip the cache lookup when requested', async () => {
+      const cachingClient = createClient({ cache: true });
+      http.reply(200, ads);
+
+      await cachingClient.getAd(params);
+      await cachingClient.getAd(params, { cache: false });
+
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache no-fill responses', async () => {
+      const cachingClient = createClient({ cache: true });
+      http.reply(204);
+
+      await cachingClient.getAd(params);
+      await cachingClient.getAd(params);
+
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('frequency capping', () => {
+    const turn = (content: string): AdParams => ({ ...params, messages: [...params.messages, { role: 'user', content }] });
+
+    it('should skip the network call once the session reached its cap', async () => {
+      const cappedClient = createClient({ frequencyCap: { maxAds: 1 } });
+      http.reply(200, [{ adText: 'Only ad' }]);
+
+      expect(await cappedClient.getAd(turn('first'))).toHaveLength(1);
+      expect(await cappedClient.getAdResult(turn('second'))).toEqual({ kind: 'capped', rule: 'maxAds' });
+      expect(await cappedClient.getAd(turn('third'))).toBeNull();
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count caps per session', async () => {
+      const cappedClient = createClient({ frequencyCap: { maxAds: 1 } });
+      http.reply(200, [{ adText: 'Only ad' }]);
+
+      await cappedClient.getAd(params);
+      await cappedClient.getAd({ ...params, sessionId: 'other-session' });
+
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave out brands served within the repeat window', async () => {
+      const cappedClient = createClient({ frequencyCap: { repeatWindowMs: 60000 } });
+      http.reply(200, [{ adText: 'Laptop deal', brandName: 'Dell' }]);
+
+      await cappedClient.getAd(turn('first'));
+      expect(await cappedClient.getAdResult(turn('second'))).toEqual({ kind: 'no_fill' });
+    });
+
+    it('should return an error result when the cap key function throws', async () => {
+      const onError = vi.fn();
+      const cappedClient = createClient({
+        frequencyCap: { maxAds: 1, key: () => { throw new Error('no user'); } },
+      }).use({ onError });
+
+      const result = await cappedClient.getAdResult(params);
+
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error.message).toBe('no user');
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(await cappedClient.getAd(params)).toBeNull();
+      expect(http.mock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('coalescing', () => {
+    const ads = [{ adText: 'Shared ad', impUrl: 'https://imp/1' }];
+
+    /** Delay every response so concurrent calls overlap */
+    const delayReplies = (ms: number) => {
+      const respond = http.mock.getMockImplementation()!;
+      http.mock.mockImplementation(async (...args: unknown[]) => {
+          await new Promise((resolve) => setTimeout(resolve, ms));
+          return respond(...args);
+      });
+    };
+
+    it('should share one request between identical concurrent calls', async () => {
+      http.reply(200, ads);
+
+      const [first, second] = await Promise.all([client.getAd(params), client.getAd(params)]);
+
+      expect(first).toEqual([{ ...ads[0], ...slot }]);
+      expect(second).toEqual(first);
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send separate requests for different bodies', async () => {
+      http.reply(200, ads);
+
+      await Promise.all([client.getAd(params), client.getAd({ ...params, sessionId: 'other-session' })]);
+
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share requests when disabled', async () => {
+      const plainClient = createClient({ coalesce: false });
+      http.reply(200, ads);
+
+      await Promise.all([plainClient.getAd(params), plainClient.getAd(params)]);
+
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the shared request running when one caller cancels', async () => {
+      http.reply(200, ads);
+      delayReplies(50);
+      const controller = new AbortController();
+
+      const cancelled = client.getAdResult(params, { signal: controller.signal });
+      const kept = client.getAdResult(params);
+      await vi.waitFor(() => expect(http.mock).toHaveBeenCalled(), { interval: 1 });
+      controller.abort();
+
+      const [cancelledResult, keptResult] = await Promise.all([cancelled, kept]);
+
+      if (cancelledResult.kind !== 'error') throw new Error('expected error result');
+      expect(cancelledResult.error).toBeInstanceOf(CancelledError);
+      expect(keptResult).toEqual({ kind: 'filled', ads: [{ ...ads[0], ...slot }] });
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start a new request after every caller cancelled the shared one', async () => {
+      http.reply(200, ads);
+      delayReplies(50);
+      const controller = new AbortController();
+
+      const cancelled = client.getAdResult(params, { signal: controller.signal });
+      await vi.waitFor(() => expect(http.mock).toHaveBeenCalled(), { interval: 1 });
+      controller.abort();
+      const retried = client.getAdResult(params);
+
+      expect((await cancelled).kind).toBe('error');
+      expect(await retried).toEqual({ kind: 'filled', ads: [{ ...ads[0], ...slot }] });
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share requests with different timeouts', async () => {
+      http.reply(200, ads);
+
+      await Promise.all([client.getAd(params), client.getAd(params, { timeoutMs: 500 })]);
+
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should batch placements for the same request and split the ads', async () => {
+      const batchingClient = createClient({ batch: true });
+      const above = { placement: 'above_response' as const, placement_id: 'top' };
+      const below = { placement: 'below_response' as const, placement_id: 'bottom' };
+      http.reply(200, [{ adText: 'Top ad' }, { adText: 'Bottom ad' }]);
+
+      const [top, bottom] = await Promise.all([
+        batchingClient.getAd({ ...params, placements: [above] }),
+        batchingClient.getAd({ ...params, placements: [below] }),
+      ]);
+
+      expect(http.mock).toHaveBeenCalledTimes(1);
+      expect(http.requests()[0].body.placements).toEqual([above, below]);
+      expect(top).toEqual([{ adText: 'Top ad', ...above }]);
+      expect(bottom).toEqual([{ adText: 'Bottom ad', ...below }]);
+    });
+
+    it('should batch calls with different timeouts separately', async () => {
+      const batchingClient = createClient({ batch: true });
+      http.reply(200, [{ adText: 'Ad' }]);
+
+      await Promise.all([
+        batchingClient.getAd({ ...params, placements: [{ placement: 'above_response', placement_id: 'top' }] }),
+        batchingClient.getAd(
+          { ...params, placements: [{ placement: 'below_response', placement_id: 'bottom' }] },
+          { timeoutMs: 500 }
+        ),
+      ]);
+
+      expect(http.mock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not hand an untagged ad from a partial fill to a batched caller', async () => {
+      const batchingClient = createClient({ batch: true });
+      http.reply(200, [{ adText: 'Footer ad' }]);
+
+      const [header, footer] = await Promise.all([
+        batchingClient.getAdResult({ ...params, placements: [{ placement: 'above_response', placement_id: 'header' }] }),
+        batchingClient.getAdResult({ ...params, placements: [{ placement: 'below_response', placement_id: 'footer' }] }),
+      ]);
+
+      expect(header).toEqual({ kind: 'no_fill' });
+      expect(footer).toEqual({ kind: 'no_fill' });
+    });
+
+    it('should drop a batched caller that cancels before the batch is sent', async () => {
+      const batchingClient = createClient({ batch: { windowMs: 20 } });
+      const above = { placement: 'above_response' as const, placement_id: 'top' };
+      const below = { placement: 'below_response' as const, placement_id: 'bottom' };
+      http.reply(200, [{ adText: 'Bottom ad', placement_id: 'bottom' }]);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 5);
+
+      const [top, bottom] = await Promise.all([
+        batchingClient.getAdResult({ ...params, placements: [above] }, { signal: controller.signal }),
+        batchingClient.getAdResult({ ...params, placements: [below] }),
+      ]);
+
+      if (top.kind !== 'error') throw new Error('expected error result');
+      expect(top.error).toBeInstanceOf(CancelledError);
+      expect(bottom).toEqual({ kind: 'filled', ads: [{ adText: 'Bottom ad', placement_id: 'bottom' }] });
+      expect(http.requests()[0].body.placements).toEqual([below]);
+    });
+
+    it('should not send a batch once every caller has cancelled', async () => {
+      const batchingClient = createClient({ batch: { windowMs: 20 } });
+      http.reply(200, [{ adText: 'Ad' }]);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 5);
+
+      const results = await Promise.all([
+        batchingClient.getAdResult(
+          { ...params, placements: [{ placement: 'above_response', placement_id: 'top' }] },
+          { signal: controller.signal }
+        ),
+        batchingClient.getAdResult(
+          { ...params, placements: [{ placement: 'below_response', placement_id: 'bottom' }] },
+          { signal: controller.signal }
+        ),
+      ]);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(results.map((result) => result.kind)).toEqual(['error', 'error']);
+      expect(http.mock).not.toHaveBeenCalled();
+    });
+
+    it('should cancel a batched caller that aborts after the batch is sent', async () => {
+      const batchingClient = createClient({ batch: true });
+      http.reply(200, [{ adText: 'Top ad', placement_id: 'top' }]);
+      delayReplies(50);
+      const controller = new AbortController();
+
+      const top = batchingClient.getAdResult(
+        { ...params, placements: [{ placement: 'above_response', placement_id: 'top' }] },
+        { signal: controller.signal }
+      );
+      await vi.waitFor(() => expect(http.mock).toHaveBeenCalled(), { interval: 1 });
+      controller.abort();
+
+      const result = await top;
+      if (result.kind !== 'error') throw new Error('expected error result');
+      expect(result.error).toBeInstanceOf(CancelledError);
+    });
+
+    it('should return no fill for batched placements without an ad', async () => {
+      const batchingClient = createClient({ batch: true });
+      http.reply(200, [{ adText: 'Top ad', placement_id: 'top' }]);
+
+      const [top, bottom] = await Promise.all([
+        batchingClient.getAdResult({ ...params, placements: [{ placement: 'above_response', placement_id: 'top' }] }),
+        batchingClient.getAdResult({ ...params, placements: [{ placement: 'below_response', placement_id: 'bottom' }] }),
+      ]);
+
+      expect(top).toEqual({ kind: 'filled', ads: [{ adText: 'Top ad', placement_id: 'top' }] });
+      expect(bottom).toEqual({ kind: 'no_fill' });
+    });
+  });
+
+  describe('placements', () => {
+    const placements = [
+      { placement: 'above_response' as const, placement_id: 'top' },
+      { placement: 'below_response' as const, placement_id: 'bottom' },
+    ];
+
+    it('should tag ads with the placement they fill, in request order', async () => {
+      http.reply(200, [{ adText: 'Top ad' }, { adText: 'Bottom ad' }]);
+
+      const result = await client.getAd({ ...params, placements });
+
+      expect(result).toEqual([
+        { adText: 'Top ad', ...placements[0] },
+        { adText: 'Bottom ad', ...placements[1] },
+      ]);
+    });
+
+    it('should keep the placement returned by the API', async () => {
+      http.reply(200, [{ adText: 'Bottom ad', placement: 'below_response', placement_id: 'bottom' }]);
+
+      const result = await client.getAd({ ...params, placements });
+
+      expect(result).toEqual([{ adText: 'Bottom ad', ...placements[1] }]);
+    });
+  });
+
+  describe('server-side tracking', () => {
+    const ad = { adText: 'Tracked ad', impUrl: 'https://imp/1', clickUrl: 'https://click/1' };
+
+    it('should fire the impression URL through the client transport', async () => {
+      http.reply(200);
+
+      const result = await createClient({ tracking: { flushOnExit: false } }).trackImpression(ad);
+
+      expect(result).toEqual({ kind: 'sent' });
+      expect(http.requests()[0]).toMatchObject({ method: 'GET', url: ad.impUrl });
+    });
+
+    it('should fire each click once', async () => {
+      const trackingClient = createClient({ tracking: { flushOnExit: false } });
+      http.reply(200);
+
+      await trackingClient.trackClick(ad);
+      const second = await trackingClient.trackClick(ad);
+
+      expect(second).toEqual({ kind: 'duplicate' });
+      expect(http.mock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not serve a tracked ad from the cache', async () => {
+      const cachingClient = createClient({ cache: true, tracking: { flushOnExit: false } });
+      http.reply(200, [ad]);
+
+      await cachingClient.getAd(params);
+      await cachingClient.trackImpression(ad);
+      await cachingClient.getAd(params);
+
+      expect(http.requests().filter((request) => request.method === 'POST')).toHaveLength(2);
+    });
+  });
 });
 
+describe('default transport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should use the global fetch when no transport is given', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await new Client('test-api-key').getAd({
+        messages: [{ role: 'user', content: 'hello' }],
+        sessionId: 'test-session',
+        placements: [{ placement: 'below_response', placement_id: 'main' }]
+    });
+
+    expect(result).toBeNull();
+    expect(fetchMock).toHaveBeenCalledWith(
+        'https://server.trygravity.ai/api/v1/ad',
+        expect.objectContaining({ method: 'POST' })
+    );
+  });
+});
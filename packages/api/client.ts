@@ -1,5 +1,36 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { Ad, AdParams, ApiErrorResponse } from './types';
+import { Ad, AdParams, AdResult, ApiErrorResponse, GetAdOptions } from './types';
+import {
+  CancelledError,
+  GravityError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  createApiError,
+} from './errors';
+import { Transport, createFetchTransport } from './transport';
+import {
+  Middleware,
+  MiddlewareRequest,
+  applyBeforeRequest,
+  applyAfterResponse,
+  applyOnError,
+} from './middleware';
+import { RedactionOptions, redactMessages } from './redaction';
+import { ContextOptions, selectContext } from './context';
+import { validateAdParams } from './validation';
+import { AdCache, CacheOptions } from './cache';
+import { BatchOptions, RequestCoalescer } from './coalesce';
+import { assignPlacements } from './placements';
+import { FrequencyCapOptions, FrequencyCapper } from './frequency';
+import { TrackResult, Tracker, TrackerOptions } from './tracking';
+import {
+  RetryOptions,
+  ResolvedRetryOptions,
+  resolveRetryOptions,
+  isRetryableError,
+  getRetryDelay,
+  sleep,
+} from './retry';
 
 /**
  * Configuration options for the Gravity API Client
@@ -31,12 +62,100 @@ export interface ClientParams {
    * @default null (no threshold)
    */
   relevancy?: number | null;
+  /**
+   * Default locale for all ad requests
+   * @description A BCP 47 language tag such as 'he-IL', sent as `locale` unless a request sets its own
+   * @default undefined (no locale is sent)
+   */
+  locale?: string;
+  /**
+   * Default time budget for a single getAd() call in milliseconds, including all retries
+   * @description Retries are skipped when their delay would exceed the remaining budget.
+   * Override it per call with the `timeoutMs` option.
+   * @default 10000
+   */
+  timeout?: number;
+  /**
+   * Retry policy for failed requests
+   * @description Retries network errors, timeouts and retryable status codes with
+   * exponential backoff and jitter. Requests are not retried when omitted.
+   * @example { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000 }
+   */
+  retry?: RetryOptions;
+  /**
+   * HTTP transport used to send requests
+   * @description Use `createAxiosTransport(axios)` to send requests through axios,
+   * or provide your own `Transport` implementation
+   * @default createFetchTransport()
+   */
+  transport?: Transport;
+  /**
+   * Middleware to run around every request
+   * @description Equivalent to calling `client.use()` for each entry, in order
+   */
+  middleware?: Middleware[];
+  /**
+   * Remove personal data from `messages` before they are sent
+   * @description Pass `true` to enable all built-in detectors with masking,
+   * or an options object to configure detectors, custom rules and actions.
+   * Runs after middleware `beforeRequest` hooks, so injected content is scrubbed too.
+   * @default false
+   */
+  redaction?: RedactionOptions | boolean;
+  /**
+   * Policy for trimming long conversations before they are sent
+   * @description Limits the number and size of `messages` to keep payloads small.
+   * Override it per call with the `context` option.
+   * @default undefined (all messages are sent)
+   */
+  context?: ContextOptions;
+  /**
+   * Validate requests against the documented `AdParams` contract before sending them
+   * @description Invalid requests fail with a `ValidationError` listing the invalid
+   * fields, without a network call
+   * @default false
+   */
+  strict?: boolean;
+  /**
+   * Cache filled responses for repeated requests with the same conversation state
+   * @description Pass `true` for an in-memory cache with default settings. Ads whose
+   * impression was reported with `markImpression()` are never served from the cache.
+   * Ads rendered by @gravity-ai/react components inside a `GravityProvider` with this
+   * client are reported automatically.
+   * @default false
+   */
+  cache?: CacheOptions | boolean;
+  /**
+   * Share one network request between concurrent calls with the same body and headers
+   * @default true
+   */
+  coalesce?: boolean;
+  /**
+   * Merge concurrent calls that differ only in their placements into one request
+   * @description Calls for the same session and conversation issued within `windowMs`
+   * are sent together with merged `placements`, and each caller receives the ads for
+   * its own placements. Pass `true` for the default window.
+   * @default false
+   */
+  batch?: BatchOptions | boolean;
+  /**
+   * Limit how often ads are shown to a session or user
+   * @description Requests blocked by a cap skip the network call and resolve to a
+   * `capped` result, or `null` from `getAd()`.
+   * @default undefined (no caps)
+   */
+  frequencyCap?: FrequencyCapOptions;
+  /**
+   * Settings for `trackImpression()` and `trackClick()`
+   * @description Tracking requests use the client's transport unless one is given here.
+   */
+  tracking?: TrackerOptions;
 }
 
 /** Default API endpoint for Gravity */
 const DEFAULT_ENDPOINT = 'https://server.trygravity.ai';
 
-/** Request timeout in milliseconds */
+/** Default request timeout in milliseconds */
 const REQUEST_TIMEOUT = 10000;
 
 /**
@@ -72,6 +191,24 @@ const REQUEST_TIMEOUT = 10000;
  *   relevancy: 0.7
  * });
  * ```
+ *
+ * @example With retries
+ * ```typescript
+ * const client = new Client('your-api-key', {
+ *   timeout: 2000,
+ *   retry: { maxAttempts: 3, baseDelayMs: 100 }
+ * });
+ * ```
+ *
+ * @example With axios instead of fetch
+ * ```typescript
+ * import axios from 'axios';
+ * import { Client, createAxiosTransport } from '@gravity-ai/api';
+ *
+ * const client = new Client('your-api-key', {
+ *   transport: createAxiosTransport(axios)
+ * });
+ * ```
  */
 export class Client {
   /** The API key used for authentication */
@@ -85,9 +222,42 @@ export class Client {
   
   /** Minimum relevancy threshold */
   private relevancy: number | null;
+
+  /** Default locale sent with requests */
+  private locale: string | undefined;
   
-  /** Axios HTTP client instance */
-  private axios: AxiosInstance;
+  /** Time budget for a single getAd() call */
+  private timeout: number;
+
+  /** Retry policy for failed requests */
+  private retry: ResolvedRetryOptions;
+
+  /** HTTP transport used to send requests */
+  private transport: Transport;
+
+  /** Middleware run around every request, in registration order */
+  private middleware: Middleware[];
+
+  /** PII redaction settings, or null when redaction is disabled */
+  private redaction: RedactionOptions | null;
+
+  /** Default context selection policy */
+  private context: ContextOptions | undefined;
+
+  /** Whether requests are validated before they are sent */
+  private strict: boolean;
+
+  /** Response cache, or null when caching is disabled */
+  private cache: AdCache | null;
+
+  /** Shares network requests between concurrent calls */
+  private coalescer: RequestCoalescer;
+
+  /** Fires tracking URLs for server-side publishers */
+  private tracker: Tracker;
+
+  /** Frequency caps, or null when capping is disabled */
+  private frequencyCap: FrequencyCapper | null;
 
   /**
    * Create a new Gravity API client
@@ -114,24 +284,32 @@ export class Client {
     this.endpoint = params.endpoint || DEFAULT_ENDPOINT;
     this.excludedTopics = params.excludedTopics || [];
     this.relevancy = params.relevancy ?? null;
-    
-    this.axios = axios.create({
-      baseURL: this.endpoint,
-      timeout: REQUEST_TIMEOUT,
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
+    this.locale = params.locale;
+    this.timeout = params.timeout ?? REQUEST_TIMEOUT;
+    this.retry = resolveRetryOptions(params.retry);
+    this.transport = params.transport ?? createFetchTransport();
+    this.middleware = [...(params.middleware ?? [])];
+    this.redaction = params.redaction === true ? {} : params.redaction || null;
+    this.context = params.context;
+    this.strict = params.strict ?? false;
+    this.cache = params.cache ? new AdCache(params.cache === true ? {} : params.cache) : null;
+    this.coalescer = new RequestCoalescer(
+      (request, options) => this.requestWithRetry(request, options),
+      params.coalesce ?? true,
+      params.batch ? (params.batch === true ? {} : params.batch) : null
+    );
+    this.tracker = new Tracker({ transport: this.transport, ...params.tracking });
+    this.frequencyCap = params.frequencyCap ? new FrequencyCapper(params.frequencyCap) : null;
   }
 
   /**
    * Request contextually relevant advertisements
    *
    * @description Fetches ads based on the provided conversation context and targeting parameters.
-   * Returns `null` if no relevant ad is available or if an error occurs.
+   * Returns `null` if no relevant ad is available, a frequency cap blocks the request, or an error occurs.
    *
    * @param params - Ad request parameters including conversation messages
+   * @param options - Per-call options such as an AbortSignal and timeout
    * @returns Promise resolving to Ad array or null if no ads available
    *
    * @example Basic request
@@ -164,6 +342,16 @@ export class Client {
    * });
    * ```
    *
+   * @example Cancelling a stale request
+   * ```typescript
+   * const controller = new AbortController();
+   * const pending = client.getAd(params, { signal: controller.signal, timeoutMs: 1500 });
+   *
+   * // User sent a new message - the previous ad is no longer needed
+   * controller.abort();
+   * await pending; // resolves to null without logging
+   * ```
+   *
    * @example Displaying and tracking
    * ```typescript
    * const ads = await client.getAd({ messages, sessionId, placements });
@@ -183,65 +371,408 @@ export class Client {
    * }
    * ```
    */
-  async getAd(params: AdParams): Promise<Ad[] | null> {
-    try {
-      const body = {
+  async getAd(params: AdParams, options: GetAdOptions = {}): Promise<Ad[] | null> {
+    const result = await this.getAdResult(params, options);
+
+    if (result.kind === 'error') {
+      if (!(result.error instanceof CancelledError)) {
+        this.handleError(result.error, 'getAd');
+      }
+      return null;
+    }
+
+    return result.kind === 'filled' ? result.ads : null;
+  }
+
+  /**
+   * Request advertisements and report the outcome as a typed result
+   *
+   * @description Same request as `getAd()`, but never logs and never collapses failures
+   * into `null`. The result tells a filled request apart from a no-fill (204 or empty
+   * array) and from an error, which is one of the exported `GravityError` subclasses.
+   * A request aborted through `options.signal` resolves to an error result holding a
+   * `CancelledError`.
+   *
+   * @param params - Ad request parameters including conversation messages
+   * @param options - Per-call options such as an AbortSignal and timeout
+   * @returns Promise resolving to a filled, no-fill or error result
+   *
+   * @example
+   * ```typescript
+   * const result = await client.getAdResult({ messages, sessionId, placements });
+   *
+   * if (result.kind === 'filled') {
+   *   showAd(result.ads[0]);
+   * } else if (result.kind === 'error' && result.error instanceof AuthenticationError) {
+   *   alertOps('Invalid Gravity API key');
+   * }
+   * ```
+   */
+  async getAdResult(params: AdParams, options: GetAdOptions = {}): Promise<AdResult> {
+    const context = options.context ?? this.context;
+    const locale = params.locale ?? this.locale;
+    let request: MiddlewareRequest = {
+      params: {
         ...params,
+        messages:
+          context && Array.isArray(params.messages)
+            ? selectContext(params.messages, context)
+            : params.messages,
         excludedTopics: params.excludedTopics ?? this.excludedTopics,
         relevancy: params.relevancy ?? this.relevancy,
-      };
+        ...(locale !== undefined && { locale }),
+      },
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    };
+    const cacheParams = request.params;
+    let result: AdResult;
 
-      const response = await this.axios.post<Ad[]>('/api/v1/ad', body);
+    try {
+      const cappedBy = await this.frequencyCap?.check(params);
+      if (cappedBy) {
+        return { kind: 'capped', rule: cappedBy };
+      }
 
-      if (response.status === 204) {
-        return null;
+      if (this.cache && options.cache !== false) {
+        const ads = await this.cache.get(cacheParams);
+        if (ads) {
+          return await this.applyFrequencyCap(params, ads);
+        }
       }
 
-      if (response.data && Array.isArray(response.data) && response.data.length > 0) {
-        return response.data;
+      request = await applyBeforeRequest(this.middleware, request);
+      request = await this.redact(request);
+      const invalid = this.strict ? this.validate(request) : null;
+      result = invalid ?? (await this.coalescer.request(request, options));
+
+      if (result.kind === 'filled') {
+        const ads = await applyAfterResponse(this.middleware, result.ads, request);
+        result = ads.length > 0 ? { kind: 'filled', ads } : { kind: 'no_fill' };
       }
 
-      return null;
+      if (result.kind === 'filled' && this.cache) {
+        await this.cache.set(cacheParams, result.ads);
+      }
+
+      if (result.kind === 'filled') {
+        result = await this.applyFrequencyCap(params, result.ads);
+      }
     } catch (error) {
-      this.handleError(error, 'getAd');
+      // A middleware hook or a frequency cap `key` function threw
+      result = { kind: 'error', error: this.toGravityError(error) };
+    }
+
+    if (result.kind === 'error') {
+      try {
+        return { kind: 'error', error: await applyOnError(this.middleware, result.error, request) };
+      } catch (error) {
+        return { kind: 'error', error: this.toGravityError(error) };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Report that an ad's impression was fired
+   *
+   * @description With caching enabled, the ad is never served from the cache again,
+   * so a cached response cannot cause a second impression for the same ad.
+   * Does nothing when caching is disabled.
+   *
+   * @param ad - The ad that was displayed
+   *
+   * @example
+   * ```typescript
+   * new Image().src = ad.impUrl;
+   * await client.markImpression(ad);
+   * ```
+   */
+  async markImpression(ad: Ad): Promise<void> {
+    await this.cache?.markFired(ad);
+  }
+
+  /**
+   * Fire an ad's impression URL from the server
+   *
+   * @description For publishers that display ads outside a browser, such as CLIs and emails.
+   * Each impression is sent at most once, failed requests are retried, and the ad is
+   * marked as fired like `markImpression()`.
+   *
+   * @param ad - The ad that was displayed
+   * @returns Whether the impression was sent, already sent, or failed
+   *
+   * @example
+   * ```typescript
+   * const ads = await client.getAd(params);
+   * if (ads) {
+   *   console.log(ads[0].adText);
+   *   await client.trackImpression(ads[0]);
+   * }
+   * ```
+   */
+  async trackImpression(ad: Ad): Promise<TrackResult> {
+    const result = await this.tracker.trackImpression(ad);
+    if (result.kind !== 'error') {
+      await this.markImpression(ad);
+    }
+    return result;
+  }
+
+  /**
+   * Fire an ad's click tracking URL from the server
+   *
+   * @param ad - The ad that was clicked
+   * @returns Whether the click was sent, already sent, or failed
+   */
+  trackClick(ad: Ad): Promise<TrackResult> {
+    return this.tracker.trackClick(ad);
+  }
+
+  /**
+   * Wait for queued `trackImpression()` and `trackClick()` requests to finish
+   *
+   * @description Call this before `process.exit()`. Queued requests are flushed
+   * automatically on SIGINT and SIGTERM.
+   *
+   * @param timeoutMs - Stop waiting after this many milliseconds
+   */
+  flushTracking(timeoutMs?: number): Promise<void> {
+    return this.tracker.flush(timeoutMs);
+  }
+
+  /**
+   * Add middleware to the request pipeline
+   *
+   * @description `beforeRequest` hooks run in the order middleware was added.
+   * `afterResponse` and `onError` hooks run in reverse order.
+   *
+   * @param middleware - The middleware to add
+   * @returns This client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client
+   *   .use({ beforeRequest: ({ params, headers }) => ({ params, headers: { ...headers, 'X-Trace-Id': traceId() } }) })
+   *   .use({ afterResponse: (ads) => ads.filter(isBrandSafe) });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Validate the final request body in strict mode
+   *
+   * @param request - The request after middleware and redaction
+   * @returns An error result for invalid requests, or null to send the request
+   *
+   * @internal This method is for internal use only
+   */
+  private validate(request: MiddlewareRequest): AdResult | null {
+    const { valid, errors } = validateAdParams(request.params);
+    if (valid) {
       return null;
     }
+
+    const summary = errors.map((error) => `${error.field} ${error.message}`).join('; ');
+    return {
+      kind: 'error',
+      error: new ValidationError(`Invalid ad request: ${summary}`, {
+        code: 'invalid_params',
+        fields: errors,
+      }),
+    };
   }
 
   /**
-   * Handle and log API errors
-   * 
-   * @description Processes errors from API calls and logs appropriate messages.
-   * Distinguishes between network errors, server errors, and unexpected errors.
-   * 
-   * @param error - The error object from the failed request
-   * @param method - The name of the method where the error occurred
-   * 
+   * Leave out recently served brands and ads beyond `maxAds`, and count the ads served
+   *
+   * @param params - The request as given to `getAdResult()`
+   * @param ads - The ads about to be returned
+   * @returns The remaining ads, or a no-fill when none are left
+   *
    * @internal This method is for internal use only
    */
-  private handleError(error: unknown, method: string): void {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError<ApiErrorResponse>;
+  private async applyFrequencyCap(params: AdParams, ads: Ad[]): Promise<AdResult> {
+    if (!this.frequencyCap) {
+      return { kind: 'filled', ads };
+    }
+
+    const allowed = await this.frequencyCap.admit(params, ads);
+    return allowed.length > 0 ? { kind: 'filled', ads: allowed } : { kind: 'no_fill' };
+  }
+
+
+  /**
+   * Scrub personal data from the request messages
+   *
+   * @param request - The request after middleware has been applied
+   * @returns The request with redacted messages
+   *
+   * @internal This method is for internal use only
+   */
+  private async redact(request: MiddlewareRequest): Promise<MiddlewareRequest> {
+    if (!this.redaction || !Array.isArray(request.params.messages)) {
+      return request;
+    }
 
-      if (axiosError.response) {
+    const { messages, report } = await redactMessages(request.params.messages, this.redaction);
+    if (report.redactedCount > 0) {
+      this.redaction.onRedact?.(report);
+    }
+
+    return { ...request, params: { ...request.params, messages } };
+  }
+
+  /**
+   * Send an ad request, retrying failed attempts according to the retry policy
+   *
+   * @param request - The request after middleware has been applied
+   * @param options - Per-call options such as an AbortSignal and timeout
+   * @returns The outcome of the last attempt
+   *
+   * @internal This method is for internal use only
+   */
+  private async requestWithRetry(request: MiddlewareRequest, options: GetAdOptions): Promise<AdResult> {
+    const { signal } = options;
+    const callTimeout = options.timeoutMs ?? this.timeout;
+    const deadline = Date.now() + callTimeout;
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        return { kind: 'error', error: new CancelledError(undefined, { cause: signal.reason }) };
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return {
+          kind: 'error',
+          error: new TimeoutError(`Request timed out after ${callTimeout}ms`, { code: 'ETIMEDOUT' }),
+        };
+      }
+
+      const timeout = Math.min(remaining, this.retry.attemptTimeoutMs ?? remaining);
+      const result = await this.requestAd(request, timeout, signal);
+
+      if (
+        result.kind !== 'error' ||
+        attempt >= this.retry.maxAttempts ||
+        !isRetryableError(result.error, this.retry)
+      ) {
+        return result;
+      }
+
+      const delay = getRetryDelay(attempt, this.retry, result.error);
+      if (Date.now() + delay >= deadline) {
+        return result;
+      }
+
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Send a single ad request
+   *
+   * @param request - The request body and headers
+   * @param timeout - Timeout for this attempt in milliseconds
+   * @param signal - Signal that cancels this attempt
+   * @returns The outcome of this attempt
+   *
+   * @internal This method is for internal use only
+   */
+  private async requestAd(
+    request: MiddlewareRequest,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<AdResult> {
+    try {
+      const response = await this.transport.request<Ad[] | ApiErrorResponse>({
+        method: 'POST',
+        url: `${this.endpoint}/api/v1/ad`,
+        headers: request.headers,
+        body: request.params,
+        timeout,
+        signal,
+      });
+
+      if (response.status >= 400) {
         // Server responded with an error status code (4xx, 5xx)
-        console.error(`[GravityClient.${method}] API Error:`, {
-          status: axiosError.response.status,
-          statusText: axiosError.response.statusText,
-          data: axiosError.response.data,
-        });
-      } else if (axiosError.request) {
-        // Request was made but no response was received (network error)
-        console.error(`[GravityClient.${method}] Network Error:`, {
-          message: 'No response received from server',
-          code: axiosError.code,
-        });
-      } else {
-        // Error occurred while setting up the request
-        console.error(`[GravityClient.${method}] Request Error:`, axiosError.message);
+        const data = response.data && !Array.isArray(response.data) ? response.data : undefined;
+        return {
+          kind: 'error',
+          error: createApiError(response.status, data, response.headers['retry-after']),
+        };
       }
+
+      if (response.status === 204) {
+        return { kind: 'no_fill' };
+      }
+
+      if (response.data && Array.isArray(response.data) && response.data.length > 0) {
+        return { kind: 'filled', ads: assignPlacements(response.data, request.params.placements) };
+      }
+
+      return { kind: 'no_fill' };
+    } catch (error) {
+      if (signal?.aborted) {
+        return { kind: 'error', error: new CancelledError(undefined, { cause: error }) };
+      }
+      return { kind: 'error', error: this.toGravityError(error) };
+    }
+  }
+
+  /**
+   * Convert a transport failure into a GravityError
+   *
+   * @description Transports already reject with NetworkError, TimeoutError or CancelledError.
+   * Anything else is wrapped as an unexpected GravityError.
+   *
+   * @param error - The error thrown by the transport
+   * @returns The matching GravityError subclass
+   *
+   * @internal This method is for internal use only
+   */
+  private toGravityError(error: unknown): GravityError {
+    if (error instanceof GravityError) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return new GravityError(message, { cause: error });
+  }
+
+  /**
+   * Log a failed request
+   *
+   * @description Logs appropriate messages for `getAd()`, which reports failures as `null`.
+   * Distinguishes between API errors, network errors, and unexpected errors.
+   *
+   * @param error - The error produced by the failed request
+   * @param method - The name of the method where the error occurred
+   *
+   * @internal This method is for internal use only
+   */
+  private handleError(error: GravityError, method: string): void {
+    if (error.status !== undefined) {
+      console.error(`[GravityClient.${method}] API Error:`, {
+        status: error.status,
+        message: error.message,
+        data: error.response,
+      });
+    } else if (error instanceof ValidationError) {
+      console.error(`[GravityClient.${method}] Validation Error:`, error.fields);
+    } else if (error instanceof NetworkError || error instanceof TimeoutError) {
+      console.error(`[GravityClient.${method}] ${error.name}:`, {
+        message: error.message,
+        code: error.code,
+      });
     } else {
-      // Non-axios error (unexpected)
       console.error(`[GravityClient.${method}] Unexpected Error:`, error);
     }
   }
@@ -0,0 +1,300 @@
+import { AdResult, GetAdOptions, PlacementObject } from './types';
+import { MiddlewareRequest } from './middleware';
+import { CancelledError } from './errors';
+import { stableStringify } from './cache';
+
+/**
+ * Placement batching configuration for `ClientParams.batch`
+ * @example
+ * ```typescript
+ * // above_response and below_response slots mounting together share one request
+ * const client = new Client('your-api-key', { batch: { windowMs: 15 } });
+ * ```
+ */
+export interface BatchOptions {
+  /**
+   * How long to wait for other placements of the same request before sending
+   * @default 10
+   */
+  windowMs?: number;
+  /**
+   * Maximum placements per merged request, matching the API limit
+   * @default 10
+   */
+  maxPlacements?: number;
+}
+
+/** Sends one request through the retry pipeline */
+type Send = (request: MiddlewareRequest, options: GetAdOptions) => Promise<AdResult>;
+
+/**
+ * A network request shared by several callers
+ */
+interface SharedRequest {
+  /** Outcome of the request */
+  promise: Promise<AdResult>;
+  /** Aborts the request once every caller with a signal has cancelled */
+  controller: AbortController;
+  /** Number of callers still waiting for the result */
+  waiting: number;
+  /** Stops new callers from joining, once the request has settled or been aborted */
+  done: () => void;
+}
+
+/**
+ * A caller waiting for its slice of a merged placement request
+ */
+interface BatchCaller {
+  placements: PlacementObject[];
+  signal?: AbortSignal;
+  resolve: (result: AdResult) => void;
+  /** Drops the caller from the batch if it cancels before the batch is sent */
+  onAbort?: () => void;
+}
+
+/**
+ * Callers collected for a merged placement request
+ */
+interface PendingBatch {
+  /** The first request, used as the template for the merged body */
+  request: MiddlewareRequest;
+  /** Options of the first request. Callers with different options are batched separately. */
+  options: GetAdOptions;
+  /** Unique placements across all callers */
+  placements: PlacementObject[];
+  /** Callers waiting for their slice of the result */
+  callers: BatchCaller[];
+  /** Timer that sends the batch when the window closes */
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Deduplicates concurrent ad requests
+ *
+ * @description Calls with the same effective body, headers and `timeoutMs` share one
+ * in-flight request. With batching enabled, calls that differ only in their placements and
+ * arrive within the batch window are merged into a single request, and the ads are handed
+ * back to each caller by `placement_id`. A shared request is aborted only when every caller
+ * waiting on it has cancelled, and calls made after that start a new request.
+ *
+ * @internal
+ */
+export class RequestCoalescer {
+  /** Sends one request through the retry pipeline */
+  private send: Send;
+
+  /** Whether identical concurrent requests share one network request */
+  private coalesce: boolean;
+
+  /** Batching settings, or null when batching is disabled */
+  private batch: Required<BatchOptions> | null;
+
+  /** Shared requests by request key */
+  private inFlight = new Map<string, SharedRequest>();
+
+  /** Batches waiting for their window to close, by request key without placements */
+  private batches = new Map<string, PendingBatch>();
+
+  constructor(send: Send, coalesce: boolean, batch: BatchOptions | null) {
+    this.send = send;
+    this.coalesce = coalesce;
+    this.batch = batch ? { windowMs: 10, maxPlacements: 10, ...batch } : null;
+  }
+
+  /**
+   * Send a request, sharing it with identical or batchable concurrent requests
+   */
+  request(request: MiddlewareRequest, options: GetAdOptions): Promise<AdResult> {
+    if (options.signal?.aborted) {
+      return Promise.resolve(this.cancelled(options.signal));
+    }
+
+    if (this.batch && Array.isArray(request.params.placements)) {
+      return this.enqueue(request, options);
+    }
+
+    if (!this.coalesce) {
+      return this.send(request, options);
+    }
+
+    const key = stableStringify({ request, timeoutMs: options.timeoutMs });
+    let shared = this.inFlight.get(key);
+    if (!shared || shared.controller.signal.aborted) {
+      shared = this.share(request, options, key);
+    }
+
+    return this.join(shared, options.signal);
+  }
+
+  /**
+   * Start a request that callers can join
+   * @param key - Key to register the request under in `inFlight`, until it settles or is aborted
+   */
+  private share(request: MiddlewareRequest, options: GetAdOptions, key?: string): SharedRequest {
+    const controller = new AbortController();
+    const done = () => {
+      if (key !== undefined && this.inFlight.get(key) === shared) {
+        this.inFlight.delete(key);
+      }
+    };
+    const shared: SharedRequest = {
+      promise: this.send(request, { ...options, signal: controller.signal }).finally(done),
+      controller,
+      waiting: 0,
+      done,
+    };
+    if (key !== undefined) {
+      this.inFlight.set(key, shared);
+    }
+    return shared;
+  }
+
+  /**
+   * Wait for a shared request, resolving early with a CancelledError if this caller aborts
+   */
+  private join(shared: SharedRequest, signal?: AbortSignal): Promise<AdResult> {
+    if (signal?.aborted) {
+      return Promise.resolve(this.cancelled(signal));
+    }
+
+    shared.waiting++;
+    if (!signal) {
+      return shared.promise;
+    }
+
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        if (--shared.waiting === 0) {
+          shared.done();
+          shared.controller.abort(signal.reason);
+        }
+        resolve(this.cancelled(signal));
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.promise.then((result) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(result);
+      });
+    });
+  }
+
+  /**
+   * Add a request to the batch for its body, sending the batch when it is full
+   */
+  private enqueue(request: MiddlewareRequest, options: GetAdOptions): Promise<AdResult> {
+    const { placements, ...rest } = request.params;
+    const key = stableStringify({ params: rest, headers: request.headers, timeoutMs: options.timeoutMs });
+
+    return new Promise((resolve) => {
+      let pending = this.batches.get(key);
+      const added = placements.filter(
+        (placement) => !pending?.placements.some((p) => p.placement_id === placement.placement_id)
+      );
+
+      if (pending && pending.placements.length + added.length > this.batch!.maxPlacements) {
+        this.flush(key);
+        pending = undefined;
+      }
+
+      if (!pending) {
+        pending = {
+          request,
+          options,
+          placements: [],
+          callers: [],
+          timer: setTimeout(() => this.flush(key), this.batch!.windowMs),
+        };
+        this.batches.set(key, pending);
+      }
+
+      const batch = pending;
+      const caller: BatchCaller = { placements, signal: options.signal, resolve };
+      if (options.signal) {
+        const signal = options.signal;
+        caller.onAbort = () => {
+          this.leave(key, batch, caller);
+          resolve(this.cancelled(signal));
+        };
+        signal.addEventListener('abort', caller.onAbort, { once: true });
+      }
+
+      batch.callers.push(caller);
+      batch.placements = uniquePlacements(batch.callers);
+    });
+  }
+
+  /**
+   * Drop a cancelled caller from a batch that has not been sent, discarding the batch once it is empty
+   */
+  private leave(key: string, pending: PendingBatch, caller: BatchCaller): void {
+    pending.callers = pending.callers.filter((c) => c !== caller);
+    pending.placements = uniquePlacements(pending.callers);
+
+    if (pending.callers.length === 0 && this.batches.get(key) === pending) {
+      clearTimeout(pending.timer);
+      this.batches.delete(key);
+    }
+  }
+
+  /**
+   * Send a batch and hand each caller the ads for its placements
+   */
+  private flush(key: string): void {
+    const pending = this.batches.get(key);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.batches.delete(key);
+
+    for (const caller of pending.callers) {
+      if (caller.onAbort) {
+        caller.signal!.removeEventListener('abort', caller.onAbort);
+      }
+    }
+    if (pending.callers.length === 0) {
+      return;
+    }
+
+    const merged: MiddlewareRequest = {
+      ...pending.request,
+      params: { ...pending.request.params, placements: pending.placements },
+    };
+    const shared = this.share(merged, pending.options);
+
+    for (const caller of pending.callers) {
+      this.join(shared, caller.signal).then((result) => {
+        if (result.kind !== 'filled') {
+          caller.resolve(result);
+          return;
+        }
+
+        const ads = result.ads.filter((ad) =>
+          caller.placements.some((placement) => placement.placement_id === ad.placement_id)
+        );
+        caller.resolve(ads.length > 0 ? { kind: 'filled', ads } : { kind: 'no_fill' });
+      });
+    }
+  }
+
+  private cancelled(signal: AbortSignal): AdResult {
+    return { kind: 'error', error: new CancelledError(undefined, { cause: signal.reason }) };
+  }
+}
+
+/**
+ * Unique placements requested by a set of batch callers, in the order they were first asked for
+ */
+function uniquePlacements(callers: BatchCaller[]): PlacementObject[] {
+  const placements: PlacementObject[] = [];
+  for (const caller of callers) {
+    for (const placement of caller.placements) {
+      if (!placements.some((p) => p.placement_id === placement.placement_id)) {
+        placements.push(placement);
+      }
+    }
+  }
+  return placements;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, selectContext } from './context';
+import { MessageObject } from './types';
+
+const user = (content: string): MessageObject => ({ role: 'user', content });
+const assistant = (content: string): MessageObject => ({ role: 'assistant', content });
+
+const conversation: MessageObject[] = [
+  user('I want to buy a laptop'),
+  assistant('What is your budget?'),
+  user('Around 1500 dollars'),
+  assistant('Do you need it for gaming?'),
+  user('No, for programming'),
+];
+
+describe('estimateTokens', () => {
+  it('approximates four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('selectContext', () => {
+  it('returns all messages without limits', () => {
+    expect(selectContext(conversation)).toEqual(conversation);
+  });
+
+  it('keeps the last N messages', () => {
+    expect(selectContext(conversation, { maxMessages: 2 })).toEqual(conversation.slice(3));
+  });
+
+  it('keeps the most recent messages that fit maxChars', () => {
+    const budget = conversation[4].content.length + conversation[3].content.length;
+    expect(selectContext(conversation, { maxChars: budget })).toEqual(conversation.slice(3));
+  });
+
+  it('converts maxTokens to an approximate character budget', () => {
+    expect(selectContext(conversation, { maxTokens: 5 })).toEqual([conversation[4]]);
+  });
+
+  it('keeps the first user message when requested', () => {
+    expect(selectContext(conversation, { maxMessages: 2, keepFirstUserMessage: true }))
+      .toEqual([conversation[0], conversation[4]]);
+  });
+
+  it('truncates long messages with an ellipsis', () => {
+    const result = selectContext([user('a'.repeat(50))], { maxMessageChars: 10 });
+    expect(result[0].content).toBe(`${'a'.repeat(9)}…`);
+  });
+
+  it('supports a custom ellipsis', () => {
+    const result = selectContext([user('abcdefghijkl')], { maxMessageChars: 8, ellipsis: '...' });
+    expect(result[0].content).toBe('abcde...');
+  });
+
+  it('truncates the newest message to fit when it exceeds the budget', () => {
+    const result = selectContext([user('older'), user('x'.repeat(100))], { maxChars: 20 });
+    expect(result).toEqual([user(`${'x'.repeat(19)}…`)]);
+  });
+
+  it('keeps original message order', () => {
+    const result = selectContext(conversation, { maxMessages: 3, keepFirstUserMessage: true });
+    expect(result).toEqual([conversation[0], conversation[3], conversation[4]]);
+  });
+
+  it('returns an empty array for an empty conversation', () => {
+    expect(selectContext([], { maxMessages: 3, keepFirstUserMessage: true })).toEqual([]);
+  });
+});
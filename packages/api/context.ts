@@ -0,0 +1,140 @@
+import { MessageObject } from './types';
+
+/**
+ * Policy for selecting which conversation messages are sent with an ad request
+ * @description Older messages are dropped first. The newest message is always kept,
+ * truncated if needed to fit the budget.
+ * @example
+ * ```typescript
+ * const client = new Client('your-api-key', {
+ *   context: {
+ *     maxMessages: 12,
+ *     maxTokens: 1000,
+ *     maxMessageChars: 2000,
+ *     keepFirstUserMessage: true
+ *   }
+ * });
+ * ```
+ */
+export interface ContextOptions {
+  /** Maximum number of messages to send */
+  maxMessages?: number;
+  /** Maximum total characters of message content */
+  maxChars?: number;
+  /** Maximum total approximate tokens of message content (about 4 characters per token) */
+  maxTokens?: number;
+  /** Truncate any single message longer than this many characters */
+  maxMessageChars?: number;
+  /**
+   * Always keep the first user message, which usually states the user's intent
+   * @default false
+   */
+  keepFirstUserMessage?: boolean;
+  /**
+   * Suffix appended to truncated messages
+   * @default '…'
+   */
+  ellipsis?: string;
+}
+
+/**
+ * Approximate the number of tokens in a string
+ *
+ * @description Uses the common heuristic of about 4 characters per token, which is close
+ * enough for budgeting without shipping a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Shorten a message to at most `maxChars` characters, including the ellipsis
+ */
+function truncate(message: MessageObject, maxChars: number, ellipsis: string): MessageObject {
+  if (message.content.length <= maxChars) {
+    return message;
+  }
+
+  const keep = Math.max(0, maxChars - ellipsis.length);
+  return { ...message, content: `${message.content.slice(0, keep).trimEnd()}${ellipsis}` };
+}
+
+/**
+ * Select the conversation messages to send with an ad request
+ *
+ * @description Applies the per-message truncation, then keeps the newest message, the
+ * first user message when `keepFirstUserMessage` is set, and as many of the most recent
+ * remaining messages as fit `maxMessages`, `maxChars` and `maxTokens`.
+ * Selected messages keep their original order.
+ *
+ * @param messages - The full conversation
+ * @param options - The context selection policy
+ * @returns The selected messages
+ *
+ * @example
+ * ```typescript
+ * const recent = selectContext(conversation, { maxMessages: 6, maxChars: 4000 });
+ * ```
+ */
+export function selectContext(
+  messages: MessageObject[],
+  options: ContextOptions = {}
+): MessageObject[] {
+  const ellipsis = options.ellipsis ?? '…';
+  const maxMessages = options.maxMessages ?? Infinity;
+  const maxChars = Math.min(options.maxChars ?? Infinity, (options.maxTokens ?? Infinity) * 4);
+
+  if (messages.length === 0 || maxMessages < 1) {
+    return [];
+  }
+
+  const candidates =
+    options.maxMessageChars !== undefined
+      ? messages.map((message) => truncate(message, options.maxMessageChars!, ellipsis))
+      : messages;
+
+  const selected = new Map<number, MessageObject>();
+  let usedChars = 0;
+
+  const take = (index: number, required: boolean): boolean => {
+    if (selected.has(index)) {
+      return true;
+    }
+    if (selected.size >= maxMessages) {
+      return false;
+    }
+
+    let message = candidates[index];
+    const remaining = maxChars - usedChars;
+
+    if (message.content.length > remaining) {
+      // Only the newest and pinned messages are shortened to fit; others are dropped
+      if (!required || remaining <= ellipsis.length) {
+        return false;
+      }
+      message = truncate(message, remaining, ellipsis);
+    }
+
+    selected.set(index, message);
+    usedChars += message.content.length;
+    return true;
+  };
+
+  const newest = candidates.length - 1;
+  take(newest, true);
+
+  if (options.keepFirstUserMessage) {
+    const firstUser = candidates.findIndex((message) => message.role === 'user');
+    if (firstUser !== -1) {
+      take(firstUser, true);
+    }
+  }
+
+  for (let index = newest - 1; index >= 0; index--) {
+    if (!take(index, false)) {
+      break;
+    }
+  }
+
+  return [...selected.entries()].sort(([a], [b]) => a - b).map(([, message]) => message);
+}
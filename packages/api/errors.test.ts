@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  AuthenticationError,
+  GravityError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+  createApiError,
+  parseRetryAfter,
+} from './errors';
+
+describe('createApiError', () => {
+  it('maps 401 and 403 to AuthenticationError', () => {
+    expect(createApiError(401)).toBeInstanceOf(AuthenticationError);
+    expect(createApiError(403)).toBeInstanceOf(AuthenticationError);
+  });
+
+  it('maps 400 and 422 to ValidationError', () => {
+    expect(createApiError(400)).toBeInstanceOf(ValidationError);
+    expect(createApiError(422)).toBeInstanceOf(ValidationError);
+  });
+
+  it('maps 5xx to ServerError', () => {
+    expect(createApiError(500)).toBeInstanceOf(ServerError);
+    expect(createApiError(503)).toBeInstanceOf(ServerError);
+  });
+
+  it('maps 429 to RateLimitError with retryAfterMs', () => {
+    const error = createApiError(429, { error: 'rate_limited' }, '2');
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(2000);
+  });
+
+  it('falls back to GravityError for other statuses', () => {
+    const error = createApiError(404);
+    expect(error).toBeInstanceOf(GravityError);
+    expect(error).not.toBeInstanceOf(ServerError);
+  });
+
+  it('uses the API message and error code', () => {
+    const error = createApiError(400, { error: 'invalid_request', message: 'sessionId is required' });
+    expect(error.message).toBe('sessionId is required');
+    expect(error.code).toBe('invalid_request');
+    expect(error.response).toEqual({ error: 'invalid_request', message: 'sessionId is required' });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('parses delay-seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+    expect(parseRetryAfter(1.5)).toBe(1500);
+  });
+
+  it('parses HTTP dates', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT')).toBe(10000);
+  });
+
+  it('returns undefined for missing or malformed values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,203 @@
+import { ApiErrorResponse } from './types';
+import type { FieldError } from './validation';
+
+/**
+ * Options shared by all Gravity error classes
+ */
+export interface GravityErrorOptions {
+  /** HTTP status code returned by the API, if a response was received */
+  status?: number;
+  /** Error code from the API body or the underlying network layer */
+  code?: string;
+  /** Parsed error body returned by the API */
+  response?: ApiErrorResponse;
+  /** The original error that caused this one */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors surfaced by the Gravity API client
+ *
+ * @description Every failure returned from `getAdResult()` is an instance of this class,
+ * so callers can use `instanceof` checks against the specific subclasses below.
+ *
+ * @example
+ * ```typescript
+ * const result = await client.getAdResult(params);
+ *
+ * if (result.kind === 'error') {
+ *   if (result.error instanceof AuthenticationError) {
+ *     alertOps('Gravity API key rejected');
+ *   } else if (result.error instanceof RateLimitError) {
+ *     backOff(result.error.retryAfterMs);
+ *   }
+ * }
+ * ```
+ */
+export class GravityError extends Error {
+  /** HTTP status code returned by the API, if a response was received */
+  readonly status?: number;
+  /** Error code from the API body or the underlying network layer */
+  readonly code?: string;
+  /** Parsed error body returned by the API */
+  readonly response?: ApiErrorResponse;
+  /** The original error that caused this one */
+  readonly cause?: unknown;
+
+  constructor(message: string, options: GravityErrorOptions = {}) {
+    super(message);
+    this.name = 'GravityError';
+    this.status = options.status;
+    this.code = options.code;
+    this.response = options.response;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The API key was missing, invalid or not allowed to access the resource (401/403)
+ */
+export class AuthenticationError extends GravityError {
+  constructor(message: string, options: GravityErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The request was throttled by the API (429)
+ */
+export class RateLimitError extends GravityError {
+  /** Time to wait before retrying, parsed from the `Retry-After` header */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: GravityErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, options);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The request payload was rejected, by the API (400/422) or by client-side validation
+ */
+export class ValidationError extends GravityError {
+  /** Field-level errors, set when the request failed client-side validation */
+  readonly fields?: FieldError[];
+
+  constructor(message: string, options: GravityErrorOptions & { fields?: FieldError[] } = {}) {
+    super(message, options);
+    this.name = 'ValidationError';
+    this.fields = options.fields;
+  }
+}
+
+/**
+ * The request was sent but no response was received
+ */
+export class NetworkError extends GravityError {
+  constructor(message: string, options: GravityErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class TimeoutError extends GravityError {
+  constructor(message: string, options: GravityErrorOptions = {}) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The request was cancelled through its AbortSignal
+ *
+ * @description Cancellation is expected behaviour (e.g. a newer chat turn replaced the
+ * request), so `getAd()` does not log it.
+ */
+export class CancelledError extends GravityError {
+  constructor(message = 'Request was cancelled', options: GravityErrorOptions = {}) {
+    super(message, { code: 'ERR_CANCELED', ...options });
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * The API failed to process a valid request (5xx)
+ */
+export class ServerError extends GravityError {
+  /** Time to wait before retrying, parsed from the `Retry-After` header (typically on 503) */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: GravityErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, options);
+    this.name = 'ServerError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Parse a `Retry-After` header value into milliseconds
+ *
+ * @description Supports both the delay-seconds and HTTP-date forms of the header.
+ *
+ * @param value - Raw header value
+ * @returns Delay in milliseconds, or undefined if the header is missing or malformed
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Build the matching GravityError subclass for an API error response
+ *
+ * @param status - HTTP status code of the response
+ * @param data - Response body, if it matches `ApiErrorResponse`
+ * @param retryAfter - Raw `Retry-After` header value
+ * @param cause - The original error
+ */
+export function createApiError(
+  status: number,
+  data?: ApiErrorResponse,
+  retryAfter?: unknown,
+  cause?: unknown
+): GravityError {
+  const message = data?.message || data?.error || `Request failed with status ${status}`;
+  const options: GravityErrorOptions = {
+    status,
+    code: data?.error,
+    response: data,
+    cause,
+  };
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, options);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, { ...options, retryAfterMs: parseRetryAfter(retryAfter) });
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, options);
+  }
+  if (status >= 500) {
+    return new ServerError(message, { ...options, retryAfterMs: parseRetryAfter(retryAfter) });
+  }
+  return new GravityError(message, options);
+}
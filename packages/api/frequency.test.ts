@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FrequencyCapper } from './frequency';
+import { AdParams } from './types';
+
+const params: AdParams = {
+  messages: [],
+  sessionId: 'session-123',
+  placements: [{ placement: 'below_response', placement_id: 'main' }],
+};
+
+/** A request on the conversation's nth turn */
+const onTurn = (n: number, overrides: Partial<AdParams> = {}): AdParams => ({
+  ...params,
+  messages: Array.from({ length: n }, (_, i) => ({ role: 'user' as const, content: `Question ${i + 1}` })),
+  ...overrides,
+});
+
+describe('FrequencyCapper', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('blocks requests once the session was served maxAds ads', async () => {
+    const capper = new FrequencyCapper({ maxAds: 2 });
+
+    expect(await capper.check(onTurn(1))).toBeNull();
+    await capper.admit(onTurn(1), [{ adText: 'A' }, { adText: 'B' }]);
+
+    expect(await capper.check(onTurn(2))).toBe('maxAds');
+  });
+
+  it('requires turns without ads between ads', async () => {
+    const capper = new FrequencyCapper({ minTurnsBetween: 1 });
+
+    await capper.check(onTurn(1));
+    await capper.admit(onTurn(1), [{ adText: 'A' }]);
+
+    // Another placement on the same turn is still allowed
+    expect(await capper.check(onTurn(1))).toBeNull();
+    expect(await capper.check(onTurn(2))).toBe('minTurnsBetween');
+    expect(await capper.check(onTurn(3))).toBeNull();
+  });
+
+  it('counts a repeated user message as a new turn', async () => {
+    const capper = new FrequencyCapper({ minTurnsBetween: 1 });
+    const saying = (...contents: string[]) => ({
+      ...params,
+      messages: contents.map((content) => ({ role: 'user' as const, content })),
+    });
+
+    await capper.check(saying('yes'));
+    await capper.admit(saying('yes'), [{ adText: 'A' }]);
+
+    expect(await capper.check(saying('yes', 'yes'))).toBe('minTurnsBetween');
+    expect(await capper.check(saying('yes', 'yes', 'yes'))).toBeNull();
+  });
+
+  it('leaves out brands and landing pages served within the repeat window', async () => {
+    vi.useFakeTimers();
+    const capper = new FrequencyCapper({ repeatWindowMs: 60000 });
+    await capper.admit(onTurn(1), [{ adText: 'A', brandName: 'Dell', url: 'https://dell.com/xps' }]);
+
+    const candidates = [
+      { adText: 'Same brand', brandName: 'Dell' },
+      { adText: 'Same page', url: 'https://dell.com/xps' },
+      { adText: 'Other', brandName: 'Lenovo' },
+    ];
+    expect(await capper.admit(onTurn(2), candidates)).toEqual([candidates[2]]);
+
+    vi.advanceTimersByTime(60000);
+    expect(await capper.admit(onTurn(3), candidates.slice(0, 2))).toEqual(candidates.slice(0, 2));
+  });
+
+  it('shares caps between requests with the same key', async () => {
+    const capper = new FrequencyCapper({ maxAds: 1, key: (request) => request.userId ?? request.sessionId });
+
+    await capper.admit(onTurn(1, { userId: 'user-1' }), [{ adText: 'A' }]);
+
+    expect(await capper.check(onTurn(1, { userId: 'user-1', sessionId: 'next-session' }))).toBe('maxAds');
+    expect(await capper.check(onTurn(1, { userId: 'user-2' }))).toBeNull();
+  });
+
+  it('cuts a response down to the ads that fit under maxAds', async () => {
+    const capper = new FrequencyCapper({ maxAds: 3 });
+
+    expect(await capper.admit(onTurn(1), [{ adText: 'A' }, { adText: 'B' }])).toHaveLength(2);
+    expect(await capper.admit(onTurn(1), [{ adText: 'C' }, { adText: 'D' }])).toEqual([{ adText: 'C' }]);
+    expect(await capper.admit(onTurn(1), [{ adText: 'E' }])).toEqual([]);
+  });
+
+  it('does not lose updates from concurrent requests on a slow store', async () => {
+    const entries = new Map<string, unknown>();
+    const slow = <T>(value: T) => new Promise<T>((resolve) => setTimeout(() => resolve(value), 5));
+    const store = {
+      get: (key: string) => slow(entries.get(key)),
+      set: async (key: string, value: unknown) => {
+        await slow(undefined);
+        entries.set(key, structuredClone(value));
+      },
+      delete: (key: string) => {
+        entries.delete(key);
+      },
+    };
+    const capper = new FrequencyCapper({ maxAds: 2, store });
+
+    const served = await Promise.all([1, 2, 3].map((n) => capper.admit(onTurn(1), [{ adText: `Ad ${n}` }])));
+
+    expect(served.flat()).toHaveLength(2);
+    expect(await capper.check(onTurn(1))).toBe('maxAds');
+  });
+
+  it('does not block requests when the store fails', async () => {
+    const store = {
+      get: () => Promise.reject(new Error('down')),
+      set: () => Promise.reject(new Error('down')),
+      delete: () => {},
+    };
+    const capper = new FrequencyCapper({ maxAds: 1, minTurnsBetween: 5, store });
+
+    await expect(capper.admit(onTurn(1), [{ adText: 'A' }])).resolves.toEqual([{ adText: 'A' }]);
+    expect(await capper.check(onTurn(2))).toBeNull();
+  });
+});
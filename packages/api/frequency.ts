@@ -0,0 +1,221 @@
+import { Ad, AdParams } from './types';
+import { CacheStore, MemoryCacheStore, hashString } from './cache';
+
+/**
+ * A frequency cap rule that can block an ad request before it is sent
+ */
+export type FrequencyCapRule = 'maxAds' | 'minTurnsBetween';
+
+/**
+ * Frequency capping configuration for `ClientParams.frequencyCap`
+ * @description Caps are counted per session unless `key` groups requests differently.
+ * Requests blocked by `maxAds` or `minTurnsBetween` are never sent. Concurrent requests,
+ * e.g. for several placements, update the caps one at a time within this process.
+ * @example
+ * ```typescript
+ * const client = new Client('your-api-key', {
+ *   frequencyCap: {
+ *     maxAds: 5,
+ *     minTurnsBetween: 2,
+ *     repeatWindowMs: 30 * 60 * 1000,
+ *   }
+ * });
+ * ```
+ */
+export interface FrequencyCapOptions {
+  /**
+   * Maximum number of ads served per session
+   * @description Counts ads returned by `getAd()`, whether or not they were displayed.
+   * A response that would go over the limit is cut down to the ads that still fit.
+   * @default undefined (no limit)
+   */
+  maxAds?: number;
+  /**
+   * Number of turns without ads required after a turn with ads
+   * @description A turn starts with each new user message, so `1` shows ads on at most
+   * every other turn. Requests on the same turn, e.g. for other placements, are not blocked.
+   * @default 0
+   */
+  minTurnsBetween?: number;
+  /**
+   * Leave out ads for a brand or landing page served within this many milliseconds
+   * @description Ads are matched by `brandName` and by `url`. When every ad in a response
+   * is left out, the request is a no-fill.
+   * @default undefined (repeats are allowed)
+   */
+  repeatWindowMs?: number;
+  /**
+   * Group requests that share caps
+   * @description Return `params.userId` to cap a user across sessions.
+   * @default the request's sessionId
+   */
+  key?: (params: AdParams) => string;
+  /**
+   * Store for capping state
+   * @description Use `LocalStorageStore` to keep caps across page loads, or implement
+   * `CacheStore` to keep them on your server.
+   * @default an in-memory store
+   */
+  store?: CacheStore;
+  /**
+   * How long capping state is kept after the last request, in milliseconds
+   * @default 86400000 (24 hours)
+   */
+  ttlMs?: number;
+}
+
+/**
+ * Capping state kept for each session
+ * @internal
+ */
+interface FrequencyState {
+  /** Ads served */
+  served: number;
+  /** Turns seen so far */
+  turn: number;
+  /** Hash of the last user message, to notice new turns */
+  lastMessage?: string;
+  /** Turn on which ads were last served */
+  lastAdTurn?: number;
+  /** Brands and landing pages served, with when they were served */
+  recent: { brandName?: string; url?: string; servedAt: number }[];
+}
+
+/**
+ * Applies frequency caps for the Client
+ *
+ * @description Store failures never block or fail a request; they are treated as
+ * a session without history. Updates for the same key run one at a time, so concurrent
+ * requests never overwrite each other's changes.
+ *
+ * @internal
+ */
+export class FrequencyCapper {
+  private options: FrequencyCapOptions;
+  private key: (params: AdParams) => string;
+  private store: CacheStore;
+  private ttlMs: number;
+
+  /** The last pending update for each key */
+  private updates = new Map<string, Promise<unknown>>();
+
+  constructor(options: FrequencyCapOptions = {}) {
+    this.options = options;
+    this.key = options.key ?? ((params) => params.sessionId);
+    this.store = options.store ?? new MemoryCacheStore(1000);
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Count the request's turn and check whether a cap blocks it
+   * @returns The rule that blocks the request, or null to send it
+   */
+  async check(params: AdParams): Promise<FrequencyCapRule | null> {
+    // A new last user message starts a new turn
+    const userMessages = Array.isArray(params.messages)
+      ? params.messages.filter((message) => message.role === 'user')
+      : [];
+    const last = userMessages[userMessages.length - 1];
+    const lastMessage = last ? hashString(`${userMessages.length}:${last.content}`) : undefined;
+
+    return this.exclusive(this.key(params), async (key) => {
+      const state = await this.read(key);
+      if (lastMessage !== undefined && lastMessage !== state.lastMessage) {
+        state.turn++;
+        state.lastMessage = lastMessage;
+        await this.write(key, state);
+      }
+
+      const { maxAds, minTurnsBetween = 0 } = this.options;
+      if (maxAds !== undefined && state.served >= maxAds) {
+        return 'maxAds';
+      }
+      if (
+        state.lastAdTurn !== undefined &&
+        state.turn > state.lastAdTurn &&
+        state.turn - state.lastAdTurn <= minTurnsBetween
+      ) {
+        return 'minTurnsBetween';
+      }
+      return null;
+    });
+  }
+
+  /**
+   * Apply the caps to a response and count the ads that are served
+   *
+   * @description Leaves out ads for brands and landing pages served within the repeat
+   * window, and ads beyond `maxAds`.
+   * @returns The ads to serve, possibly none
+   */
+  async admit(params: AdParams, ads: Ad[]): Promise<Ad[]> {
+    return this.exclusive(this.key(params), async (key) => {
+      const state = await this.read(key);
+      const now = Date.now();
+      const { maxAds, repeatWindowMs } = this.options;
+
+      const since = now - (repeatWindowMs ?? 0);
+      const recent = state.recent.filter((entry) => entry.servedAt > since);
+      let allowed = ads.filter(
+        (ad) =>
+          repeatWindowMs === undefined ||
+          !recent.some(
+            (entry) =>
+              (ad.brandName !== undefined && entry.brandName === ad.brandName) ||
+              (ad.url !== undefined && entry.url === ad.url)
+          )
+      );
+      if (maxAds !== undefined) {
+        allowed = allowed.slice(0, Math.max(0, maxAds - state.served));
+      }
+      if (allowed.length === 0) {
+        return allowed;
+      }
+
+      state.served += allowed.length;
+      state.lastAdTurn = state.turn;
+      state.recent = [
+        ...recent,
+        ...allowed.map((ad) => ({ brandName: ad.brandName, url: ad.url, servedAt: now })),
+      ];
+      await this.write(key, state);
+      return allowed;
+    });
+  }
+
+  /**
+   * Run an update after the pending updates for the same key
+   */
+  private exclusive<T>(key: string, update: (key: string) => Promise<T>): Promise<T> {
+    const run = () => update(key);
+    const result = (this.updates.get(key) ?? Promise.resolve()).then(run, run);
+    const settled = result.catch(() => undefined);
+    this.updates.set(key, settled);
+    settled.then(() => {
+      if (this.updates.get(key) === settled) {
+        this.updates.delete(key);
+      }
+    });
+    return result;
+  }
+
+  private async read(key: string): Promise<FrequencyState> {
+    try {
+      const state = (await this.store.get(`frequency:${key}`)) as FrequencyState | undefined;
+      if (state && typeof state.served === 'number' && Array.isArray(state.recent)) {
+        return state;
+      }
+    } catch {
+      // Fall through to a fresh state
+    }
+    return { served: 0, turn: 0, recent: [] };
+  }
+
+  private async write(key: string, state: FrequencyState): Promise<void> {
+    try {
+      await this.store.set(`frequency:${key}`, state, this.ttlMs);
+    } catch {
+      // A failed write only loosens the caps
+    }
+  }
+}
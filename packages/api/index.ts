@@ -1,7 +1,50 @@
 export { Client, ClientParams } from './client';
+export {
+  GravityError,
+  AuthenticationError,
+  RateLimitError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+  CancelledError,
+  ServerError,
+} from './errors';
+export type { GravityErrorOptions } from './errors';
+export type { RetryOptions, RetryJitter } from './retry';
+export { createFetchTransport, createAxiosTransport } from './transport';
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  FetchTransportOptions,
+} from './transport';
+export type { Middleware, MiddlewareRequest } from './middleware';
+export { redactMessages } from './redaction';
+export type {
+  RedactionOptions,
+  RedactionRule,
+  RedactionAction,
+  RedactionReport,
+  RedactionFinding,
+  RedactionSpan,
+  BuiltInDetector,
+} from './redaction';
+export { selectContext, estimateTokens } from './context';
+export type { ContextOptions } from './context';
+export { MemoryCacheStore, LocalStorageStore, defaultCacheKey } from './cache';
+export type { CacheOptions, CacheStore } from './cache';
+export type { BatchOptions } from './coalesce';
+export type { FrequencyCapOptions, FrequencyCapRule } from './frequency';
+export { getAdsByPlacement } from './placements';
+export { Tracker } from './tracking';
+export type { TrackerOptions, TrackResult } from './tracking';
+export { validateAdParams } from './validation';
+export type { FieldError, ValidationResult } from './validation';
 export type {
   AdParams,
   Ad,
+  AdResult,
+  GetAdOptions,
   ApiErrorResponse,
   MessageObject,
   DeviceObject,
@@ -10,4 +53,4 @@ export type {
   Placement,
   Role,
   Gender,
-} from './types';
\ No newline at end of file
+} from './types';
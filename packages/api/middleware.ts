@@ -0,0 +1,113 @@
+import { Ad, AdParams } from './types';
+import { GravityError } from './errors';
+
+/**
+ * Outgoing ad request as seen by middleware
+ */
+export interface MiddlewareRequest {
+  /** Request body, with client defaults such as `excludedTopics` already applied */
+  params: AdParams;
+  /** Request headers, including `Authorization` */
+  headers: Record<string, string>;
+}
+
+/**
+ * Hooks that run around every `getAd()` / `getAdResult()` call
+ *
+ * @description Register middleware with `client.use()` or the `middleware` client option.
+ * `beforeRequest` hooks run in registration order. `afterResponse` and `onError` hooks run
+ * in reverse registration order, so the first middleware registered wraps all the others.
+ * Hooks run once per call, not once per retry attempt.
+ *
+ * @example
+ * ```typescript
+ * client.use({
+ *   name: 'tenant',
+ *   beforeRequest: ({ params, headers }) => ({
+ *     params: { ...params, device: requestContext.device },
+ *     headers: { ...headers, 'X-Tenant-Id': tenantId },
+ *   }),
+ *   afterResponse: (ads) => ads.filter((ad) => !blocklist.includes(ad.brandName ?? '')),
+ *   onError: (error) => {
+ *     metrics.increment('gravity.error', { type: error.name });
+ *   },
+ * });
+ * ```
+ */
+export interface Middleware {
+  /** Name used to identify the middleware when debugging */
+  name?: string;
+  /**
+   * Called before the request is sent
+   * @returns A replacement request, or nothing to keep the current one
+   */
+  beforeRequest?: (
+    request: MiddlewareRequest
+  ) => MiddlewareRequest | void | Promise<MiddlewareRequest | void>;
+  /**
+   * Called with the returned ads. Returning an empty array turns the result into a no-fill.
+   * @returns Replacement ads, or nothing to keep the current ones
+   */
+  afterResponse?: (ads: Ad[], request: MiddlewareRequest) => Ad[] | void | Promise<Ad[] | void>;
+  /**
+   * Called when the request failed, after all retries
+   * @returns A replacement error, or nothing to keep the current one
+   */
+  onError?: (
+    error: GravityError,
+    request: MiddlewareRequest
+  ) => GravityError | void | Promise<GravityError | void>;
+}
+
+/**
+ * Run `beforeRequest` hooks in registration order
+ * @internal
+ */
+export async function applyBeforeRequest(
+  middleware: Middleware[],
+  request: MiddlewareRequest
+): Promise<MiddlewareRequest> {
+  let current = request;
+  for (const mw of middleware) {
+    if (mw.beforeRequest) {
+      current = (await mw.beforeRequest(current)) ?? current;
+    }
+  }
+  return current;
+}
+
+/**
+ * Run `afterResponse` hooks in reverse registration order
+ * @internal
+ */
+export async function applyAfterResponse(
+  middleware: Middleware[],
+  ads: Ad[],
+  request: MiddlewareRequest
+): Promise<Ad[]> {
+  let current = ads;
+  for (const mw of [...middleware].reverse()) {
+    if (mw.afterResponse) {
+      current = (await mw.afterResponse(current, request)) ?? current;
+    }
+  }
+  return current;
+}
+
+/**
+ * Run `onError` hooks in reverse registration order
+ * @internal
+ */
+export async function applyOnError(
+  middleware: Middleware[],
+  error: GravityError,
+  request: MiddlewareRequest
+): Promise<GravityError> {
+  let current = error;
+  for (const mw of [...middleware].reverse()) {
+    if (mw.onError) {
+      current = (await mw.onError(current, request)) ?? current;
+    }
+  }
+  return current;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { assignPlacements, getAdsByPlacement } from './placements';
+import { PlacementObject } from './types';
+
+const placements: PlacementObject[] = [
+  { placement: 'above_response', placement_id: 'header' },
+  { placement: 'below_response', placement_id: 'footer' },
+];
+
+describe('assignPlacements', () => {
+  it('should tag untagged ads by position', () => {
+    expect(assignPlacements([{ adText: 'A' }, { adText: 'B' }], placements)).toEqual([
+      { adText: 'A', placement: 'above_response', placement_id: 'header' },
+      { adText: 'B', placement: 'below_response', placement_id: 'footer' },
+    ]);
+  });
+
+  it('should leave ads that already carry a placement_id', () => {
+    const ad = { adText: 'B', placement_id: 'footer' };
+    expect(assignPlacements([ad], placements)).toEqual([ad]);
+  });
+
+  it('should leave untagged ads on a partial fill', () => {
+    const ad = { adText: 'Footer ad' };
+    expect(assignPlacements([ad], placements)).toEqual([ad]);
+  });
+
+  it('should leave untagged ads when there are more ads than placements', () => {
+    const ads = [{ adText: 'A' }, { adText: 'B' }, { adText: 'C' }];
+    expect(assignPlacements(ads, placements)).toEqual(ads);
+  });
+
+  it('should tag every ad with a single placement', () => {
+    expect(assignPlacements([{ adText: 'A' }, { adText: 'B' }], [placements[0]])).toEqual([
+      { adText: 'A', placement: 'above_response', placement_id: 'header' },
+      { adText: 'B', placement: 'above_response', placement_id: 'header' },
+    ]);
+  });
+});
+
+describe('getAdsByPlacement', () => {
+  it('should map every requested placement to its ad', () => {
+    const result = getAdsByPlacement(
+      [
+        { adText: 'Footer ad', placement_id: 'footer' },
+        { adText: 'Header ad', placement_id: 'header' },
+      ],
+      placements
+    );
+
+    expect(result.header?.adText).toBe('Header ad');
+    expect(result.footer?.adText).toBe('Footer ad');
+  });
+
+  it('should return null for unfilled placements', () => {
+    expect(getAdsByPlacement([{ adText: 'Footer ad', placement_id: 'footer' }], placements)).toEqual({
+      header: null,
+      footer: { adText: 'Footer ad', placement_id: 'footer' },
+    });
+  });
+
+  it('should return null for every placement on no fill', () => {
+    expect(getAdsByPlacement(null, placements)).toEqual({ header: null, footer: null });
+  });
+
+  it('should ignore ads for placements that were not requested', () => {
+    const result = getAdsByPlacement([{ adText: 'Stray', placement_id: 'sidebar' }], placements);
+    expect(result).toEqual({ header: null, footer: null });
+  });
+});
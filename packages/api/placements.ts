@@ -0,0 +1,66 @@
+import { Ad, PlacementObject } from './types';
+
+/**
+ * Tag each ad with the placement it was returned for
+ *
+ * @description Ads that already carry a `placement_id` are left as they are. The rest are
+ * matched by position only when that is unambiguous: with a single placement, or when every
+ * placement was filled, since the API returns ads in request order. Otherwise, e.g. on a
+ * partial fill, untagged ads are left untagged rather than guessed.
+ *
+ * @internal
+ */
+export function assignPlacements(ads: Ad[], placements: PlacementObject[] | undefined): Ad[] {
+  if (!Array.isArray(placements)) {
+    return ads;
+  }
+  if (placements.length !== 1 && ads.length !== placements.length) {
+    return ads;
+  }
+
+  return ads.map((ad, index) => {
+    const placement = placements.length === 1 ? placements[0] : placements[index];
+    if (ad.placement_id !== undefined || !placement) {
+      return ad;
+    }
+    return { ...ad, placement: placement.placement, placement_id: placement.placement_id };
+  });
+}
+
+/**
+ * Look up the ad for each requested placement
+ *
+ * @description Every requested `placement_id` is present in the result, with `null`
+ * for placements that were not filled.
+ *
+ * @param ads - Ads returned by `getAd()`, or null for no fill
+ * @param placements - The placements sent with the request
+ * @returns The ad for each `placement_id`
+ *
+ * @example
+ * ```typescript
+ * const placements: PlacementObject[] = [
+ *   { placement: 'above_response', placement_id: 'header' },
+ *   { placement: 'below_response', placement_id: 'footer' },
+ * ];
+ * const ads = await client.getAd({ messages, sessionId, placements });
+ * const { header, footer } = getAdsByPlacement(ads, placements);
+ * ```
+ */
+export function getAdsByPlacement(
+  ads: Ad[] | null,
+  placements: PlacementObject[]
+): Record<string, Ad | null> {
+  const byPlacement: Record<string, Ad | null> = {};
+  for (const placement of placements) {
+    byPlacement[placement.placement_id] = null;
+  }
+
+  for (const ad of assignPlacements(ads ?? [], placements)) {
+    if (ad.placement_id !== undefined && byPlacement[ad.placement_id] === null) {
+      byPlacement[ad.placement_id] = ad;
+    }
+  }
+
+  return byPlacement;
+}
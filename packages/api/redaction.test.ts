@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { luhnCheck, redactMessages } from './redaction';
+import { MessageObject } from './types';
+
+const user = (content: string): MessageObject => ({ role: 'user', content });
+
+async function redact(content: string, options = {}) {
+  const { messages } = await redactMessages([user(content)], options);
+  return messages[0]?.content;
+}
+
+describe('luhnCheck', () => {
+  it('accepts valid card numbers', () => {
+    expect(luhnCheck('4111 1111 1111 1111')).toBe(true);
+    expect(luhnCheck('5500-0000-0000-0004')).toBe(true);
+  });
+
+  it('rejects invalid card numbers', () => {
+    expect(luhnCheck('4111 1111 1111 1112')).toBe(false);
+    expect(luhnCheck('1234')).toBe(false);
+  });
+});
+
+describe('redactMessages', () => {
+  describe('built-in detectors', () => {
+    it('masks email addresses', async () => {
+      expect(await redact('Reach me at jane.doe+ads@example.co.uk please'))
+        .toBe('Reach me at [REDACTED_EMAIL] please');
+    });
+
+    it('masks phone numbers', async () => {
+      expect(await redact('Call +1 (415) 555-2671 or 020 7946 0958'))
+        .toBe('Call [REDACTED_PHONE] or [REDACTED_PHONE]');
+    });
+
+    it('masks phone numbers written together or as local numbers', async () => {
+      expect(await redact('Text 5551234567 or +447946095812')).toBe('Text [REDACTED_PHONE] or [REDACTED_PHONE]');
+      expect(await redact('Dial 555 1234 or 555-1234')).toBe('Dial [REDACTED_PHONE] or [REDACTED_PHONE]');
+    });
+
+    it('leaves short numbers written together alone', async () => {
+      expect(await redact('Order 5551234 shipped')).toBe('Order 5551234 shipped');
+    });
+
+    it('masks credit cards that pass the Luhn check', async () => {
+      expect(await redact('Card 4111 1111 1111 1111')).toBe('Card [REDACTED_CREDIT_CARD]');
+      expect(await redact('Order 4111111111111112')).toBe('Order 4111111111111112');
+    });
+
+    it('masks IP addresses', async () => {
+      expect(await redact('Server at 192.168.0.12')).toBe('Server at [REDACTED_IP_ADDRESS]');
+      expect(await redact('Host 2001:0db8:85a3:0000:0000:8a2e:0370:7334 is down'))
+        .toBe('Host [REDACTED_IP_ADDRESS] is down');
+    });
+
+    it('masks compressed IPv6 addresses', async () => {
+      expect(await redact('Try 2001:db8::1, ::1 or fe80::1ff:fe23:4567:890a.'))
+        .toBe('Try [REDACTED_IP_ADDRESS], [REDACTED_IP_ADDRESS] or [REDACTED_IP_ADDRESS].');
+      expect(await redact('Mapped ::ffff:192.0.2.1 here')).toBe('Mapped [REDACTED_IP_ADDRESS] here');
+    });
+
+    it('leaves times and scoped names that look like IPv6 alone', async () => {
+      const text = 'Meet at 12:30:45, then call std::vector or a:b:c::d';
+      expect(await redact(text)).toBe(text);
+    });
+
+    it('masks SSN-like numbers', async () => {
+      expect(await redact('SSN 123-45-6789')).toBe('SSN [REDACTED_SSN]');
+    });
+
+    it('masks only credential query parameters in URLs', async () => {
+      expect(await redact('See https://app.example.com/reset?user=7&token=abc123&lang=en'))
+        .toBe('See https://app.example.com/reset?user=7&token=[REDACTED_URL_TOKEN]&lang=en');
+    });
+
+    it('leaves ordinary text alone', async () => {
+      const text = 'I need a laptop under $1500 for 2024, ideally 16GB RAM';
+      expect(await redact(text)).toBe(text);
+    });
+
+    it('leaves messages without string content alone', async () => {
+      const message = { role: 'user', content: { text: 'jane@example.com' } } as unknown as MessageObject;
+      const { messages } = await redactMessages([message]);
+      expect(messages).toEqual([message]);
+    });
+
+    it('can disable individual detectors', async () => {
+      expect(await redact('Server at 192.168.0.12', { detectors: { ipAddress: false } }))
+        .toBe('Server at 192.168.0.12');
+    });
+  });
+
+  describe('custom rules', () => {
+    it('applies regex rules', async () => {
+      expect(await redact('Order ORD-12345678 shipped', {
+        rules: [{ name: 'orderId', pattern: /ORD-\d{8}/ }],
+      })).toBe('Order [REDACTED_ORDER_ID] shipped');
+    });
+
+    it('applies detector functions with a custom mask', async () => {
+      expect(await redact('my name is Jane', {
+        rules: [{
+          name: 'name',
+          mask: '<name>',
+          detect: (text: string) => {
+            const index = text.indexOf('Jane');
+            return index === -1 ? [] : [{ start: index, end: index + 4 }];
+          },
+        }],
+      })).toBe('my name is <name>');
+    });
+  });
+
+  describe('actions', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('hashes values consistently', async () => {
+      const first = await redact('jane@example.com', { defaultAction: 'hash', hashSalt: 's' });
+      const second = await redact('jane@example.com', { defaultAction: 'hash', hashSalt: 's' });
+      const salted = await redact('jane@example.com', { defaultAction: 'hash', hashSalt: 'other' });
+
+      expect(first).toMatch(/^\[email:[0-9a-f]{12}\]$/);
+      expect(second).toBe(first);
+      expect(salted).not.toBe(first);
+    });
+
+    it('salts hashes with a random salt when none is set', async () => {
+      const first = await redact('123-45-6789', { defaultAction: 'hash' });
+      const second = await redact('123-45-6789', { defaultAction: 'hash', hashSalt: '' });
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode('123-45-6789'));
+      const unsalted = Array.from(new Uint8Array(digest).slice(0, 6))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+
+      expect(second).toBe(first);
+      expect(first).not.toBe(`[ssn:${unsalted}]`);
+    });
+
+    it('masks hashed values with a warning without Web Crypto', async () => {
+      vi.stubGlobal('crypto', undefined);
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await redact('jane@example.com', { defaultAction: 'hash', hashSalt: 's' })).toBe('[REDACTED_EMAIL]');
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('drops messages with a match', async () => {
+      const { messages, report } = await redactMessages(
+        [user('my card is 4111 1111 1111 1111'), user('what laptop should I buy?')],
+        { detectors: { creditCard: 'drop' } }
+      );
+
+      expect(messages).toEqual([user('what laptop should I buy?')]);
+      expect(report.droppedMessages).toBe(1);
+    });
+  });
+
+  it('reports findings per rule and message without the values', async () => {
+    const { report } = await redactMessages([
+      user('hello'),
+      user('jane@example.com and bob@example.com, 123-45-6789'),
+    ]);
+
+    expect(report).toEqual({
+      redactedCount: 3,
+      droppedMessages: 0,
+      findings: [
+        { rule: 'email', action: 'mask', messageIndex: 1, count: 2 },
+        { rule: 'ssn', action: 'mask', messageIndex: 1, count: 1 },
+      ],
+    });
+    expect(JSON.stringify(report)).not.toContain('jane');
+  });
+});
@@ -0,0 +1,416 @@
+import { MessageObject } from './types';
+
+/**
+ * What to do with a detected value
+ * @description `mask` replaces it with a placeholder, `hash` replaces it with a salted
+ * SHA-256 digest prefix (stable across requests), `drop` removes the whole message.
+ * `hash` needs Web Crypto (`globalThis.crypto`, Node 19+ or a browser); without it values
+ * are masked instead and a warning is logged once.
+ */
+export type RedactionAction = 'mask' | 'hash' | 'drop';
+
+/**
+ * Names of the built-in detectors
+ * @description What the detectors that look for numbers match:
+ * - `ipAddress`: IPv4, and IPv6 in full or `::` compressed form (`2001:db8::1`, `::1`).
+ *   Compressed addresses without any digit, such as `dead::beef`, are not detected.
+ * - `phone`: 7 to 15 digits grouped with spaces, dots, dashes or parentheses
+ *   (`555 1234`, `+1 (415) 555-2671`), or 10 to 15 digits written together (`5551234567`).
+ *   Shorter numbers written together are not detected.
+ * - `creditCard`: 13 to 19 digits, optionally grouped, that pass the Luhn check.
+ * - `ssn`: `123-45-6789`, with dashes only.
+ */
+export type BuiltInDetector = 'email' | 'phone' | 'creditCard' | 'ipAddress' | 'ssn' | 'urlToken';
+
+/**
+ * Location of a detected value within a message
+ */
+export interface RedactionSpan {
+  /** Index of the first character */
+  start: number;
+  /** Index after the last character */
+  end: number;
+}
+
+/**
+ * A custom redaction rule
+ * @example
+ * ```typescript
+ * const rule: RedactionRule = {
+ *   name: 'orderId',
+ *   pattern: /\bORD-\d{8}\b/g,
+ *   action: 'hash'
+ * };
+ * ```
+ */
+export interface RedactionRule {
+  /** Rule name, used in placeholders and in the report */
+  name: string;
+  /** Pattern matching the values to redact. The global flag is added if missing. */
+  pattern?: RegExp;
+  /** Custom detector returning the spans to redact. Used instead of `pattern`. */
+  detect?: (text: string) => RedactionSpan[];
+  /** Extra check for each match, e.g. a checksum. Matches failing it are kept. */
+  validate?: (value: string) => boolean;
+  /**
+   * What to do with matches
+   * @default the `defaultAction` of the redaction options
+   */
+  action?: RedactionAction;
+  /**
+   * Placeholder used by the `mask` action
+   * @default '[REDACTED_<NAME>]'
+   */
+  mask?: string;
+}
+
+/**
+ * Redaction configuration for `ClientParams.redaction`
+ * @example
+ * ```typescript
+ * const client = new Client('your-api-key', {
+ *   redaction: {
+ *     detectors: { ipAddress: false, creditCard: 'drop' },
+ *     rules: [{ name: 'employeeId', pattern: /\bEMP\d{6}\b/g }],
+ *     onRedact: (report) => audit.log('gravity.redaction', report)
+ *   }
+ * });
+ * ```
+ */
+export interface RedactionOptions {
+  /**
+   * Built-in detectors to run. Set a detector to `false` to disable it,
+   * or to an action to override the default action.
+   * @default all detectors enabled with `defaultAction`
+   */
+  detectors?: Partial<Record<BuiltInDetector, RedactionAction | boolean>>;
+  /** Custom rules. They take priority over the built-in detectors when matches overlap. */
+  rules?: RedactionRule[];
+  /**
+   * Action for detectors and rules that do not set one
+   * @default 'mask'
+   */
+  defaultAction?: RedactionAction;
+  /**
+   * Secret salt mixed into hashed values so they cannot be brute-forced or matched against other systems
+   * @description Set it to keep hashes stable across processes. Without it, hashes are only
+   * stable for the lifetime of the process.
+   * @default a random salt generated once per process
+   */
+  hashSalt?: string;
+  /** Called with a report of every redacted request, for auditing */
+  onRedact?: (report: RedactionReport) => void;
+}
+
+/**
+ * A rule that matched within one message
+ */
+export interface RedactionFinding {
+  /** Name of the detector or rule */
+  rule: string;
+  /** Action applied */
+  action: RedactionAction;
+  /** Index of the message in the original `messages` array */
+  messageIndex: number;
+  /** Number of values redacted */
+  count: number;
+}
+
+/**
+ * Summary of what was redacted. Never contains the redacted values.
+ */
+export interface RedactionReport {
+  /** Total number of redacted values */
+  redactedCount: number;
+  /** Number of messages removed by the `drop` action */
+  droppedMessages: number;
+  /** Matches per rule and message */
+  findings: RedactionFinding[];
+}
+
+/** Query parameter names that usually carry credentials */
+const SENSITIVE_PARAM = /token|key|secret|password|passwd|auth|session|sig|signature|code/i;
+
+/**
+ * Luhn checksum used to validate credit card numbers
+ */
+export function luhnCheck(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Check the IPv6 candidates matched by the `ipAddress` pattern
+ * @description Requires eight groups, or fewer with a single `::`, counting an embedded
+ * IPv4 address as two. IPv4 matches pass unchanged.
+ */
+function isIpAddress(value: string): boolean {
+  if (!value.includes(':')) {
+    return true;
+  }
+
+  const halves = value.split('::');
+  if (halves.length > 2 || !/\d/.test(value)) {
+    return false;
+  }
+
+  const groups = halves.flatMap((half) => (half ? half.split(':') : []));
+  if (groups.some((group) => group === '')) {
+    return false;
+  }
+
+  const count = groups.length + (value.includes('.') ? 1 : 0);
+  return halves.length === 2 ? count < 8 : count === 8;
+}
+
+/**
+ * Find the values of credential-like query parameters in URLs
+ */
+function detectUrlTokens(text: string): RedactionSpan[] {
+  const spans: RedactionSpan[] = [];
+
+  for (const url of text.matchAll(/https?:\/\/[^\s<>"']+/g)) {
+    const queryStart = url[0].search(/[?#]/);
+    if (queryStart === -1) continue;
+
+    const offset = url.index! + queryStart;
+    for (const param of url[0].slice(queryStart).matchAll(/[?&#]([^=&#\s]+)=([^&#\s]*)/g)) {
+      if (!SENSITIVE_PARAM.test(param[1]) || param[2].length === 0) continue;
+
+      const start = offset + param.index! + param[0].length - param[2].length;
+      spans.push({ start, end: start + param[2].length });
+    }
+  }
+
+  return spans;
+}
+
+/** Built-in detectors, in priority order for overlapping matches */
+const BUILT_IN_RULES: Record<BuiltInDetector, Omit<RedactionRule, 'action'>> = {
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  urlToken: {
+    name: 'urlToken',
+    detect: detectUrlTokens,
+  },
+  creditCard: {
+    name: 'creditCard',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: luhnCheck,
+  },
+  ssn: {
+    name: 'ssn',
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+  },
+  ipAddress: {
+    name: 'ipAddress',
+    pattern:
+      /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b|(?<![\w:])(?:[A-Fa-f0-9]{0,4}:){2,7}(?:(?:\d{1,3}\.){3}\d{1,3}|[A-Fa-f0-9]{1,4})?(?!:?\w)/g,
+    validate: isIpAddress,
+  },
+  phone: {
+    name: 'phone',
+    pattern:
+      /(?<![\w+])(?:(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}|\d{3}[\s.-]\d{4}|\d{10,15}|\+\d{7,15})(?!\w)/g,
+    validate: (value) => {
+      const digits = value.replace(/\D/g, '').length;
+      return digits >= 7 && digits <= 15;
+    },
+  },
+};
+
+/** A rule with its action resolved */
+type ResolvedRule = RedactionRule & { action: RedactionAction };
+
+/**
+ * Build the ordered list of rules for the given options
+ */
+function resolveRules(options: RedactionOptions): ResolvedRule[] {
+  const defaultAction = options.defaultAction ?? 'mask';
+  const rules: ResolvedRule[] = [];
+
+  for (const rule of options.rules ?? []) {
+    rules.push({ ...rule, action: rule.action ?? defaultAction });
+  }
+
+  for (const [detector, rule] of Object.entries(BUILT_IN_RULES) as [BuiltInDetector, RedactionRule][]) {
+    const setting = options.detectors?.[detector] ?? true;
+    if (setting === false) continue;
+    rules.push({ ...rule, action: setting === true ? defaultAction : setting });
+  }
+
+  return rules;
+}
+
+/**
+ * Find all spans matched by a rule
+ */
+function findSpans(rule: RedactionRule, text: string): RedactionSpan[] {
+  let spans: RedactionSpan[] = [];
+
+  if (rule.detect) {
+    spans = rule.detect(text);
+  } else if (rule.pattern) {
+    const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`;
+    for (const match of text.matchAll(new RegExp(rule.pattern.source, flags))) {
+      if (match[0].length > 0) {
+        spans.push({ start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+  }
+
+  return rule.validate ? spans.filter((span) => rule.validate!(text.slice(span.start, span.end))) : spans;
+}
+
+/**
+ * Default placeholder for a rule, e.g. `creditCard` becomes `[REDACTED_CREDIT_CARD]`
+ */
+function defaultMask(name: string): string {
+  return `[REDACTED_${name.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}]`;
+}
+
+/** Salt used when `hashSalt` is not set, generated on first use */
+let processSalt: string | undefined;
+
+/** Whether the missing Web Crypto warning was logged */
+let warnedNoCrypto = false;
+
+/**
+ * A random 128-bit salt
+ * @returns The salt as hex, or undefined when Web Crypto is unavailable
+ * @internal
+ */
+export function randomSalt(): string | undefined {
+  const crypto = globalThis.crypto;
+  if (!crypto?.getRandomValues) {
+    return undefined;
+  }
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Hash a value with SHA-256 via Web Crypto
+ * @returns The first 12 hex characters of the digest, or undefined when Web Crypto is unavailable
+ */
+async function hashValue(value: string, salt: string): Promise<string | undefined> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    if (!warnedNoCrypto) {
+      warnedNoCrypto = true;
+      console.warn('[GravityClient] Web Crypto is not available, so hashed PII is masked instead');
+    }
+    return undefined;
+  }
+
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(`${salt}${value}`));
+  return Array.from(new Uint8Array(digest).slice(0, 6))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * The configured salt, or the process salt. An empty salt counts as unset.
+ */
+function resolveSalt(options: RedactionOptions): string {
+  if (options.hashSalt) {
+    return options.hashSalt;
+  }
+  processSalt ??= randomSalt();
+  return processSalt ?? '';
+}
+
+/**
+ * Remove personal data from conversation messages
+ *
+ * @description Runs any custom rules and the built-in detectors (email, credential query
+ * parameters in URLs, credit card with Luhn check, SSN-like numbers, IP address, phone)
+ * over each message. When matches overlap, custom rules win, then the built-in detectors
+ * in the order listed.
+ * Hashing falls back to masking, with a warning, when Web Crypto is not available.
+ * Without `hashSalt`, hashes use a random salt generated once per process.
+ *
+ * @param messages - Conversation messages to scrub
+ * @param options - Redaction configuration
+ * @returns The scrubbed messages and a report of what was redacted
+ *
+ * @example
+ * ```typescript
+ * const { messages, report } = await redactMessages(
+ *   [{ role: 'user', content: 'Email me at jane@example.com' }],
+ *   { defaultAction: 'mask' }
+ * );
+ * // messages[0].content === 'Email me at [REDACTED_EMAIL]'
+ * ```
+ */
+export async function redactMessages(
+  messages: MessageObject[],
+  options: RedactionOptions = {}
+): Promise<{ messages: MessageObject[]; report: RedactionReport }> {
+  const rules = resolveRules(options);
+  const report: RedactionReport = { redactedCount: 0, droppedMessages: 0, findings: [] };
+  const result: MessageObject[] = [];
+
+  for (const [messageIndex, message] of messages.entries()) {
+    const text = message.content;
+    if (typeof text !== 'string') {
+      // Left as is for validation to reject
+      result.push(message);
+      continue;
+    }
+
+    const taken: (RedactionSpan & { rule: ResolvedRule })[] = [];
+
+    for (const rule of rules) {
+      let count = 0;
+      for (const span of findSpans(rule, text)) {
+        if (taken.some((other) => span.start < other.end && other.start < span.end)) continue;
+        taken.push({ ...span, rule });
+        count++;
+      }
+      if (count > 0) {
+        report.findings.push({ rule: rule.name, action: rule.action, messageIndex, count });
+        report.redactedCount += count;
+      }
+    }
+
+    if (taken.some((span) => span.rule.action === 'drop')) {
+      report.droppedMessages++;
+      continue;
+    }
+
+    let content = '';
+    let cursor = 0;
+    for (const span of taken.sort((a, b) => a.start - b.start)) {
+      const hash =
+        span.rule.action === 'hash'
+          ? await hashValue(text.slice(span.start, span.end), resolveSalt(options))
+          : undefined;
+
+      content += text.slice(cursor, span.start);
+      content += hash ? `[${span.rule.name}:${hash}]` : span.rule.mask ?? defaultMask(span.rule.name);
+      cursor = span.end;
+    }
+    content += text.slice(cursor);
+
+    result.push(taken.length > 0 ? { ...message, content } : message);
+  }
+
+  return { messages: result, report };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryOptions,
+} from './retry';
+import {
+  AuthenticationError,
+  GravityError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+} from './errors';
+
+describe('resolveRetryOptions', () => {
+  it('disables retries when no options are given', () => {
+    expect(resolveRetryOptions().maxAttempts).toBe(1);
+  });
+
+  it('fills in defaults for missing options', () => {
+    expect(resolveRetryOptions({ baseDelayMs: 50 })).toEqual({
+      ...DEFAULT_RETRY_OPTIONS,
+      baseDelayMs: 50,
+    });
+  });
+
+  it('clamps maxAttempts to at least one', () => {
+    expect(resolveRetryOptions({ maxAttempts: 0 }).maxAttempts).toBe(1);
+  });
+});
+
+describe('isRetryableError', () => {
+  const policy = resolveRetryOptions({});
+
+  it('retries retryable status codes', () => {
+    expect(isRetryableError(new ServerError('fail', { status: 503 }), policy)).toBe(true);
+    expect(isRetryableError(new RateLimitError('slow down', { status: 429 }), policy)).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isRetryableError(new AuthenticationError('no', { status: 401 }), policy)).toBe(false);
+  });
+
+  it('retries retryable network codes', () => {
+    expect(isRetryableError(new NetworkError('reset', { code: 'ECONNRESET' }), policy)).toBe(true);
+    expect(isRetryableError(new TimeoutError('slow', { code: 'ECONNABORTED' }), policy)).toBe(true);
+    expect(isRetryableError(new NetworkError('tls', { code: 'CERT_HAS_EXPIRED' }), policy)).toBe(false);
+  });
+
+  it('does not retry unexpected errors', () => {
+    expect(isRetryableError(new GravityError('boom'), policy)).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially up to maxDelayMs', () => {
+    const policy = resolveRetryOptions({ baseDelayMs: 100, maxDelayMs: 350, jitter: 'none' });
+    expect(getRetryDelay(1, policy)).toBe(100);
+    expect(getRetryDelay(2, policy)).toBe(200);
+    expect(getRetryDelay(3, policy)).toBe(350);
+  });
+
+  it('applies full jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const policy = resolveRetryOptions({ baseDelayMs: 100, jitter: 'full' });
+    expect(getRetryDelay(2, policy)).toBe(100);
+  });
+
+  it('applies equal jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const policy = resolveRetryOptions({ baseDelayMs: 100, jitter: 'equal' });
+    expect(getRetryDelay(2, policy)).toBe(150);
+  });
+
+  it('honors Retry-After on 429 and 503', () => {
+    const policy = resolveRetryOptions({ jitter: 'none' });
+    expect(getRetryDelay(1, policy, new RateLimitError('slow', { retryAfterMs: 1500 }))).toBe(1500);
+    expect(getRetryDelay(1, policy, new ServerError('down', { retryAfterMs: 700 }))).toBe(700);
+  });
+
+  it('ignores Retry-After when respectRetryAfter is false', () => {
+    const policy = resolveRetryOptions({ jitter: 'none', baseDelayMs: 100, respectRetryAfter: false });
+    expect(getRetryDelay(1, policy, new RateLimitError('slow', { retryAfterMs: 1500 }))).toBe(100);
+  });
+});
@@ -0,0 +1,189 @@
+import { GravityError, NetworkError, RateLimitError, ServerError, TimeoutError } from './errors';
+
+/**
+ * Jitter strategy applied to retry delays
+ * @description `full` picks a random delay between 0 and the backoff value,
+ * `equal` keeps half of the backoff and randomizes the other half, `none` disables jitter
+ */
+export type RetryJitter = 'full' | 'equal' | 'none';
+
+/**
+ * Retry policy for failed ad requests
+ * @description Failed attempts are retried with exponential backoff. Retries never
+ * extend a call past the client's `timeout`.
+ * @example
+ * ```typescript
+ * const client = new Client('your-api-key', {
+ *   timeout: 1500,
+ *   retry: {
+ *     maxAttempts: 3,
+ *     baseDelayMs: 100,
+ *     maxDelayMs: 500,
+ *     attemptTimeoutMs: 600
+ *   }
+ * });
+ * ```
+ */
+export interface RetryOptions {
+  /**
+   * Total number of attempts, including the first request
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry, doubled on each following retry
+   * @default 200
+   */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for the backoff delay
+   * @default 2000
+   */
+  maxDelayMs?: number;
+  /**
+   * Jitter strategy applied to the backoff delay
+   * @default 'full'
+   */
+  jitter?: RetryJitter;
+  /**
+   * HTTP status codes that trigger a retry
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryableStatusCodes?: number[];
+  /**
+   * Network error codes that trigger a retry
+   * @default ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'ERR_NETWORK']
+   */
+  retryableErrorCodes?: string[];
+  /**
+   * Wait for the `Retry-After` header on 429 and 503 responses instead of the backoff delay
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+  /**
+   * Timeout for a single attempt in milliseconds
+   * @description Lets a hung attempt fail early enough to leave time for a retry.
+   * @default null (each attempt may use the remaining call timeout)
+   */
+  attemptTimeoutMs?: number | null;
+}
+
+/**
+ * Retry policy with every option filled in
+ * @internal
+ */
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+/** Retry policy used when `retry` is passed without some options */
+export const DEFAULT_RETRY_OPTIONS: ResolvedRetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+  jitter: 'full',
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryableErrorCodes: [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'ERR_NETWORK',
+  ],
+  respectRetryAfter: true,
+  attemptTimeoutMs: null,
+};
+
+/**
+ * Fill in the retry policy for a client
+ *
+ * @param options - Retry options from `ClientParams`, or undefined to disable retries
+ * @returns The complete retry policy
+ */
+export function resolveRetryOptions(options?: RetryOptions): ResolvedRetryOptions {
+  if (!options) {
+    return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
+  }
+
+  return {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...options,
+    maxAttempts: Math.max(1, Math.floor(options.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts)),
+  };
+}
+
+/**
+ * Decide whether a failed attempt should be retried
+ *
+ * @param error - The error produced by the failed attempt
+ * @param policy - The resolved retry policy
+ */
+export function isRetryableError(error: GravityError, policy: ResolvedRetryOptions): boolean {
+  if (error.status !== undefined) {
+    return policy.retryableStatusCodes.includes(error.status);
+  }
+
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return error.code === undefined || policy.retryableErrorCodes.includes(error.code);
+  }
+
+  return false;
+}
+
+/**
+ * Compute how long to wait before the next attempt
+ *
+ * @param attempt - The number of the attempt that just failed, starting at 1
+ * @param policy - The resolved retry policy
+ * @param error - The error produced by the failed attempt
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: ResolvedRetryOptions,
+  error?: GravityError
+): number {
+  if (
+    policy.respectRetryAfter &&
+    (error instanceof RateLimitError || error instanceof ServerError) &&
+    error.retryAfterMs !== undefined
+  ) {
+    return error.retryAfterMs;
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+
+  switch (policy.jitter) {
+    case 'full':
+      return Math.random() * backoff;
+    case 'equal':
+      return backoff / 2 + Math.random() * (backoff / 2);
+    default:
+      return backoff;
+  }
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * @description Resolves early when the signal is aborted.
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Tracker } from './tracking';
+import { Transport, TransportResponse } from './transport';
+import { NetworkError, ValidationError } from './errors';
+
+const ad = {
+  adText: 'Buy our product!',
+  impUrl: 'https://tracking.example.com/imp/1',
+  clickUrl: 'https://tracking.example.com/click/1',
+};
+
+/** Node's `process`, typed for the parts these tests use */
+const nodeProcess = (globalThis as unknown as {
+  process: {
+    pid: number;
+    listenerCount(event: string): number;
+    emit(event: string, ...args: unknown[]): boolean;
+    kill(pid: number, signal?: string): boolean;
+  };
+}).process;
+
+const ok: TransportResponse = { status: 200, data: undefined, headers: {} };
+
+/** Transport answering every request with `respond` */
+function createTransport(respond: () => Promise<TransportResponse> = async () => ok) {
+  const request = vi.fn(respond);
+  return { transport: { request } as unknown as Transport, request };
+}
+
+describe('Tracker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should fire the impression URL with a GET request', async () => {
+    const { transport, request } = createTransport();
+
+    const result = await new Tracker({ transport, flushOnExit: false }).trackImpression(ad);
+
+    expect(result).toEqual({ kind: 'sent' });
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({ method: 'GET', url: ad.impUrl }));
+  });
+
+  it('should fire the click URL', async () => {
+    const { transport, request } = createTransport();
+
+    await new Tracker({ transport, flushOnExit: false }).trackClick(ad);
+
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({ url: ad.clickUrl }));
+  });
+
+  it('should never fire the same URL twice', async () => {
+    const { transport, request } = createTransport();
+    const tracker = new Tracker({ transport, flushOnExit: false });
+
+    const results = await Promise.all([tracker.trackImpression(ad), tracker.trackImpression(ad)]);
+    const later = await tracker.trackImpression({ ...ad });
+
+    expect(results).toEqual([{ kind: 'sent' }, { kind: 'duplicate' }]);
+    expect(later).toEqual({ kind: 'duplicate' });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry failed requests', async () => {
+    const { transport, request } = createTransport();
+    request.mockRejectedValueOnce(new NetworkError('socket hang up', { code: 'ECONNRESET' }));
+    request.mockResolvedValueOnce({ status: 503, data: undefined, headers: {} });
+
+    const result = await new Tracker({
+      transport,
+      retry: { baseDelayMs: 1, jitter: 'none' },
+      flushOnExit: false,
+    }).trackImpression(ad);
+
+    expect(result).toEqual({ kind: 'sent' });
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should allow a failed URL to be tracked again', async () => {
+    const { transport, request } = createTransport();
+    request.mockResolvedValueOnce({ status: 404, data: undefined, headers: {} });
+    const tracker = new Tracker({ transport, flushOnExit: false });
+
+    const failed = await tracker.trackImpression(ad);
+    const retried = await tracker.trackImpression(ad);
+
+    expect(failed.kind).toBe('error');
+    expect(retried).toEqual({ kind: 'sent' });
+  });
+
+  it('should return a ValidationError when the ad has no URL', async () => {
+    const { transport, request } = createTransport();
+
+    const result = await new Tracker({ transport, flushOnExit: false }).trackClick({ adText: 'No link' });
+
+    if (result.kind !== 'error') throw new Error('expected error result');
+    expect(result.error).toBeInstanceOf(ValidationError);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should limit the number of requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const { transport } = createTransport(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return ok;
+    });
+    const tracker = new Tracker({ transport, maxConcurrent: 2, flushOnExit: false });
+
+    await Promise.all(
+      [1, 2, 3, 4, 5].map((n) => tracker.trackImpression({ adText: 'Ad', impUrl: `https://imp/${n}` }))
+    );
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should wait for queued requests on flush', async () => {
+    const { transport } = createTransport(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return ok;
+    });
+    const tracker = new Tracker({ transport, flushOnExit: false });
+    const sent = vi.fn();
+
+    tracker.trackImpression(ad).then(sent);
+    await tracker.flush();
+
+    expect(sent).toHaveBeenCalledWith({ kind: 'sent' });
+  });
+
+  it('should flush before re-raising SIGTERM', async () => {
+    const kill = vi.spyOn(nodeProcess, 'kill').mockImplementation(() => true);
+    const { transport } = createTransport(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return ok;
+    });
+    const tracker = new Tracker({ transport });
+    const existingListeners = nodeProcess.listenerCount('SIGTERM');
+    const sent = vi.fn();
+
+    tracker.trackImpression(ad).then(sent);
+    expect(nodeProcess.listenerCount('SIGTERM')).toBe(existingListeners + 1);
+    nodeProcess.emit('SIGTERM', 'SIGTERM');
+    await vi.waitFor(() => expect(sent).toHaveBeenCalled());
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(nodeProcess.listenerCount('SIGTERM')).toBe(existingListeners);
+    if (existingListeners === 0) {
+      expect(kill).toHaveBeenCalledWith(nodeProcess.pid, 'SIGTERM');
+    }
+  });
+
+  it('should remove its exit listeners once idle', async () => {
+    const { transport } = createTransport();
+    const existingListeners = nodeProcess.listenerCount('SIGINT');
+
+    await new Tracker({ transport }).trackImpression(ad);
+
+    expect(nodeProcess.listenerCount('SIGINT')).toBe(existingListeners);
+  });
+});
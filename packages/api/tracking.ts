@@ -0,0 +1,349 @@
+import { Ad } from './types';
+import { CacheStore, MemoryCacheStore } from './cache';
+import { GravityError, TimeoutError, ValidationError, createApiError } from './errors';
+import {
+  RetryOptions,
+  ResolvedRetryOptions,
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryOptions,
+  sleep,
+} from './retry';
+import { Transport, createFetchTransport } from './transport';
+
+/**
+ * Configuration for `Tracker` and `ClientParams.tracking`
+ * @example
+ * ```typescript
+ * const tracker = new Tracker({
+ *   retry: { maxAttempts: 5 },
+ *   store: redisStore, // share sent URLs across workers
+ * });
+ * ```
+ */
+export interface TrackerOptions {
+  /**
+   * HTTP layer used to fire tracking URLs
+   * @default the Client's transport, or a fetch-based transport
+   */
+  transport?: Transport;
+  /**
+   * Retry policy for failed tracking requests
+   * @default 3 attempts with exponential backoff
+   */
+  retry?: RetryOptions;
+  /**
+   * Total time budget per tracking URL in milliseconds, including retries
+   * @default 5000
+   */
+  timeout?: number;
+  /**
+   * Maximum number of tracking requests in flight; the rest wait in a queue
+   * @default 4
+   */
+  maxConcurrent?: number;
+  /**
+   * Store remembering which URLs were already sent
+   * @default a MemoryCacheStore holding 10000 URLs
+   */
+  store?: CacheStore;
+  /**
+   * How long sent URLs are remembered in milliseconds
+   * @default 86400000 (24 hours)
+   */
+  ttlMs?: number;
+  /**
+   * Finish queued tracking requests before the process exits on SIGINT or SIGTERM
+   * @default true
+   */
+  flushOnExit?: boolean;
+  /**
+   * Maximum time to wait for queued requests when the process is exiting
+   * @default 2000
+   */
+  exitTimeoutMs?: number;
+}
+
+/**
+ * Outcome of a tracking call
+ * @description `sent` means the URL was fired, `duplicate` that it was already sent
+ * (or is being sent) and was not fired again.
+ */
+export type TrackResult =
+  | { kind: 'sent' }
+  | { kind: 'duplicate' }
+  | { kind: 'error'; error: GravityError };
+
+/**
+ * The subset of Node's `process` used to flush on exit
+ */
+interface NodeProcess {
+  pid: number;
+  on(event: string, listener: (signal: string) => void): unknown;
+  off(event: string, listener: (signal: string) => void): unknown;
+  listenerCount(event: string): number;
+  kill(pid: number, signal: string): unknown;
+}
+
+/** Signals that trigger a flush before the process exits */
+const EXIT_SIGNALS = ['SIGINT', 'SIGTERM'];
+
+/**
+ * Node's `process`, or undefined outside Node
+ */
+function getNodeProcess(): NodeProcess | undefined {
+  const candidate = (globalThis as { process?: Partial<NodeProcess> }).process;
+  return typeof candidate?.on === 'function' && typeof candidate.off === 'function'
+    ? (candidate as NodeProcess)
+    : undefined;
+}
+
+/**
+ * Server-side impression and click tracking
+ *
+ * @description Fires `impUrl` and `clickUrl` over HTTP for publishers without a browser,
+ * such as CLIs, bots and server-rendered emails. Each URL is sent at most once: repeated
+ * calls for the same ad resolve as `duplicate`. Failed requests are retried, and queued
+ * requests are finished before the process exits on SIGINT or SIGTERM. When calling
+ * `process.exit()` yourself, `await tracker.flush()` first.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new Tracker();
+ *
+ * const ads = await client.getAd(params);
+ * if (ads) {
+ *   printAd(ads[0]);
+ *   await tracker.trackImpression(ads[0]);
+ * }
+ * ```
+ */
+export class Tracker {
+  private transport: Transport;
+  private retry: ResolvedRetryOptions;
+  private timeout: number;
+  private maxConcurrent: number;
+  private store: CacheStore;
+  private ttlMs: number;
+  private flushOnExit: boolean;
+  private exitTimeoutMs: number;
+
+  /** Tracking calls queued or in flight, by URL */
+  private pending = new Map<string, Promise<TrackResult>>();
+
+  /** Requests waiting for a free slot */
+  private queue: (() => void)[] = [];
+
+  /** Number of requests in flight */
+  private active = 0;
+
+  /** Whether the exit signal listeners are registered */
+  private exitHooksAttached = false;
+
+  constructor(options: TrackerOptions = {}) {
+    this.transport = options.transport ?? createFetchTransport();
+    this.retry = resolveRetryOptions(options.retry ?? {});
+    this.timeout = options.timeout ?? 5000;
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 4);
+    this.store = options.store ?? new MemoryCacheStore(10000);
+    this.ttlMs = options.ttlMs ?? 86400000;
+    this.flushOnExit = options.flushOnExit ?? true;
+    this.exitTimeoutMs = options.exitTimeoutMs ?? 2000;
+  }
+
+  /**
+   * Fire an ad's impression URL
+   *
+   * @param ad - The ad that was displayed
+   * @returns Whether the impression was sent, already sent, or failed
+   */
+  trackImpression(ad: Ad): Promise<TrackResult> {
+    return this.track(ad.impUrl, 'impUrl');
+  }
+
+  /**
+   * Fire an ad's click tracking URL
+   *
+   * @description Use this when the click is handled outside a browser, e.g. a CLI opening
+   * the landing page itself. In a browser, link to `clickUrl` instead.
+   *
+   * @param ad - The ad that was clicked
+   * @returns Whether the click was sent, already sent, or failed
+   */
+  trackClick(ad: Ad): Promise<TrackResult> {
+    return this.track(ad.clickUrl, 'clickUrl');
+  }
+
+  /**
+   * Wait for all queued tracking requests to finish
+   *
+   * @param timeoutMs - Stop waiting after this many milliseconds
+   */
+  async flush(timeoutMs?: number): Promise<void> {
+    const drain = async () => {
+      while (this.pending.size > 0) {
+        await Promise.all(this.pending.values());
+      }
+    };
+
+    if (timeoutMs === undefined) {
+      return drain();
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([drain(), new Promise<void>((resolve) => (timer = setTimeout(resolve, timeoutMs)))]);
+    clearTimeout(timer);
+  }
+
+  private track(url: string | undefined, field: 'impUrl' | 'clickUrl'): Promise<TrackResult> {
+    if (!url) {
+      return Promise.resolve({
+        kind: 'error',
+        error: new ValidationError(`Ad has no ${field}`, { code: 'missing_url' }),
+      });
+    }
+    if (this.pending.has(url)) {
+      return Promise.resolve({ kind: 'duplicate' });
+    }
+
+    const promise = this.fire(url);
+    this.pending.set(url, promise);
+    this.attachExitHooks();
+
+    promise.then(() => {
+      this.pending.delete(url);
+      if (this.pending.size === 0) {
+        this.detachExitHooks();
+      }
+    });
+
+    return promise;
+  }
+
+  /**
+   * Send a URL unless it was sent before, and remember it once sent
+   */
+  private async fire(url: string): Promise<TrackResult> {
+    if (await this.wasSent(url)) {
+      return { kind: 'duplicate' };
+    }
+
+    const result = await this.schedule(() => this.send(url));
+    if (result.kind === 'sent') {
+      await this.markSent(url);
+    }
+    return result;
+  }
+
+  /**
+   * Run a request once fewer than `maxConcurrent` are in flight
+   */
+  private schedule(task: () => Promise<TrackResult>): Promise<TrackResult> {
+    return new Promise((resolve) => {
+      const run = () => {
+        this.active++;
+        task()
+          .then(resolve)
+          .finally(() => {
+            this.active--;
+            this.queue.shift()?.();
+          });
+      };
+
+      if (this.active < this.maxConcurrent) {
+        run();
+      } else {
+        this.queue.push(run);
+      }
+    });
+  }
+
+  /**
+   * Fire a tracking URL, retrying failures within the timeout
+   */
+  private async send(url: string): Promise<TrackResult> {
+    const deadline = Date.now() + this.timeout;
+
+    for (let attempt = 1; ; attempt++) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return {
+          kind: 'error',
+          error: new TimeoutError(`Tracking request timed out after ${this.timeout}ms`, { code: 'ETIMEDOUT' }),
+        };
+      }
+
+      const timeout = Math.min(remaining, this.retry.attemptTimeoutMs ?? remaining);
+      let error: GravityError;
+      try {
+        const response = await this.transport.request({ method: 'GET', url, headers: {}, timeout });
+        if (response.status < 400) {
+          return { kind: 'sent' };
+        }
+        error = createApiError(response.status, undefined, response.headers['retry-after']);
+      } catch (cause) {
+        error = cause instanceof GravityError ? cause : new GravityError('Tracking request failed', { cause });
+      }
+
+      if (attempt >= this.retry.maxAttempts || !isRetryableError(error, this.retry)) {
+        return { kind: 'error', error };
+      }
+
+      const delay = getRetryDelay(attempt, this.retry, error);
+      if (Date.now() + delay >= deadline) {
+        return { kind: 'error', error };
+      }
+
+      await sleep(delay);
+    }
+  }
+
+  private async wasSent(url: string): Promise<boolean> {
+    try {
+      return Boolean(await this.store.get(`tracked:${url}`));
+    } catch {
+      return false;
+    }
+  }
+
+  private async markSent(url: string): Promise<void> {
+    try {
+      await this.store.set(`tracked:${url}`, true, this.ttlMs);
+    } catch {
+      // The URL was sent; only a later duplicate check is lost
+    }
+  }
+
+  /**
+   * Flush on SIGINT/SIGTERM, then re-raise the signal if nothing else handles it
+   */
+  private handleExitSignal = (signal: string) => {
+    this.detachExitHooks();
+    void this.flush(this.exitTimeoutMs).then(() => {
+      const nodeProcess = getNodeProcess();
+      if (nodeProcess && nodeProcess.listenerCount(signal) === 0) {
+        nodeProcess.kill(nodeProcess.pid, signal);
+      }
+    });
+  };
+
+  private attachExitHooks(): void {
+    const nodeProcess = getNodeProcess();
+    if (!this.flushOnExit || this.exitHooksAttached || !nodeProcess) {
+      return;
+    }
+
+    EXIT_SIGNALS.forEach((signal) => nodeProcess.on(signal, this.handleExitSignal));
+    this.exitHooksAttached = true;
+  }
+
+  private detachExitHooks(): void {
+    const nodeProcess = getNodeProcess();
+    if (!this.exitHooksAttached || !nodeProcess) {
+      return;
+    }
+
+    EXIT_SIGNALS.forEach((signal) => nodeProcess.off(signal, this.handleExitSignal));
+    this.exitHooksAttached = false;
+  }
+}
@@ -0,0 +1,232 @@
+import type { AxiosInstance } from 'axios';
+import { CancelledError, GravityError, NetworkError, TimeoutError } from './errors';
+
+/**
+ * A single HTTP request issued by the Client
+ */
+export interface TransportRequest {
+  /** HTTP method */
+  method: 'GET' | 'POST';
+  /** Absolute request URL */
+  url: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Request body, serialized as JSON by the transport */
+  body?: unknown;
+  /** Timeout for this request in milliseconds */
+  timeout: number;
+  /** Signal that cancels this request */
+  signal?: AbortSignal;
+}
+
+/**
+ * The HTTP response returned by a transport
+ */
+export interface TransportResponse<T = unknown> {
+  /** HTTP status code */
+  status: number;
+  /** Parsed JSON body, or undefined when the body is empty or not JSON */
+  data: T | undefined;
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+}
+
+/**
+ * HTTP layer used by the Client to talk to the Gravity API
+ *
+ * @description Implement this interface to run the client on any HTTP stack.
+ * A transport must resolve for every HTTP response, including 4xx and 5xx statuses,
+ * and reject only when no response was received. Rejections should be a
+ * `TimeoutError`, `CancelledError` or `NetworkError`.
+ *
+ * @example
+ * ```typescript
+ * const transport: Transport = {
+ *   async request(req) {
+ *     const res = await myHttp.send(req.method, req.url, req.headers, JSON.stringify(req.body));
+ *     return { status: res.status, data: res.json, headers: res.headers };
+ *   }
+ * };
+ *
+ * const client = new Client('your-api-key', { transport });
+ * ```
+ */
+export interface Transport {
+  request<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+/**
+ * Options for the fetch-based transport
+ */
+export interface FetchTransportOptions {
+  /**
+   * fetch implementation to use
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Create a transport backed by the Fetch API
+ *
+ * @description The default transport. Works in Node.js 18+, browsers and edge runtimes
+ * such as Cloudflare Workers, Vercel Edge and Deno.
+ *
+ * @param options - Optional fetch implementation
+ * @returns A Transport instance
+ *
+ * @example
+ * ```typescript
+ * const client = new Client('your-api-key', {
+ *   transport: createFetchTransport({ fetch: myInstrumentedFetch })
+ * });
+ * ```
+ */
+export function createFetchTransport(options: FetchTransportOptions = {}): Transport {
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      const fetchFn = options.fetch ?? globalThis.fetch;
+      const controller = new AbortController();
+      let timedOut = false;
+
+      const onAbort = () => controller.abort();
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, request.timeout);
+
+      if (request.signal?.aborted) {
+        controller.abort();
+      } else {
+        request.signal?.addEventListener('abort', onAbort, { once: true });
+      }
+
+      try {
+        const response = await fetchFn(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body: request.body === undefined ? undefined : JSON.stringify(request.body),
+          signal: controller.signal,
+        });
+
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+          headers[key.toLowerCase()] = value;
+        });
+
+        const text = response.status === 204 ? '' : await response.text();
+
+        return { status: response.status, data: parseJson<T>(text), headers };
+      } catch (error) {
+        if (request.signal?.aborted) {
+          throw new CancelledError(undefined, { cause: error });
+        }
+        if (timedOut) {
+          throw new TimeoutError(`Request timed out after ${request.timeout}ms`, {
+            code: 'ETIMEDOUT',
+            cause: error,
+          });
+        }
+        throw new NetworkError('No response received from server', {
+          code: getErrorCode(error) ?? 'ERR_NETWORK',
+          cause: error,
+        });
+      } finally {
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', onAbort);
+      }
+    },
+  };
+}
+
+/**
+ * Create a transport backed by an axios instance
+ *
+ * @description Use this adapter to keep axios interceptors, proxies or agents you already
+ * configure. axios is not bundled with this package - pass your own instance.
+ *
+ * @param instance - The axios default export or an instance from `axios.create()`
+ * @returns A Transport instance
+ *
+ * @example
+ * ```typescript
+ * import axios from 'axios';
+ *
+ * const client = new Client('your-api-key', {
+ *   transport: createAxiosTransport(axios.create({ proxy: false }))
+ * });
+ * ```
+ */
+export function createAxiosTransport(instance: Pick<AxiosInstance, 'request'>): Transport {
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      try {
+        const response = await instance.request({
+          method: request.method,
+          url: request.url,
+          headers: request.headers,
+          data: request.body,
+          timeout: request.timeout,
+          signal: request.signal,
+          // Let the Client map error statuses instead of axios throwing
+          validateStatus: () => true,
+        });
+
+        const headers: Record<string, string> = {};
+        Object.entries(response.headers ?? {}).forEach(([key, value]) => {
+          if (value !== undefined && value !== null) {
+            headers[key.toLowerCase()] = String(value);
+          }
+        });
+
+        const data = typeof response.data === 'string' ? parseJson<T>(response.data) : response.data;
+
+        return { status: response.status, data: data ?? undefined, headers };
+      } catch (error) {
+        const code = getErrorCode(error);
+
+        if (request.signal?.aborted || code === 'ERR_CANCELED') {
+          throw new CancelledError(undefined, { cause: error });
+        }
+        if (code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+          throw new TimeoutError(`Request timed out after ${request.timeout}ms`, { code, cause: error });
+        }
+        if (error instanceof GravityError) {
+          throw error;
+        }
+        throw new NetworkError('No response received from server', { code, cause: error });
+      }
+    },
+  };
+}
+
+/**
+ * Parse a JSON response body, returning undefined for empty or invalid JSON
+ */
+function parseJson<T>(text: string): T | undefined {
+  if (!text) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the `code` property of a network error (e.g. ECONNRESET), including Node's `cause`
+ */
+function getErrorCode(error: unknown): string | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  if (typeof code === 'string') {
+    return code;
+  }
+
+  return cause && cause !== error ? getErrorCode(cause) : undefined;
+}
@@ -1,3 +1,7 @@
+import type { GravityError } from './errors';
+import type { ContextOptions } from './context';
+import type { FrequencyCapRule } from './frequency';
+
 /**
  * Role type for conversation messages
  * @description Indicates whether a message is from the user or the AI assistant
@@ -126,6 +130,7 @@ export interface UserObject {
  *   userId: 'user-456',
  *   user: { gender: 'male', age: '25-34' },
  *   device: { ip: '1.2.3.4', country: 'US' },
+ *   locale: 'en-US',
  *   excludedTopics: ['politics'],
  *   relevancy: 0.5
  * };
@@ -142,6 +147,8 @@ export interface AdParams {
   userId?: string;
   /** Device and location information */
   device?: DeviceObject;
+  /** BCP 47 language tag of the user's interface (e.g. 'ar-EG'), so ads match the user's language */
+  locale?: string;
   /** User demographic and interest data */
   user?: UserObject;
   /** Topics to exclude from ad matching (e.g., ['politics', 'religion']) */
@@ -190,6 +197,10 @@ export interface Ad {
   impUrl?: string;
   /** Click-through tracking URL - use this as href for ad clicks */
   clickUrl?: string;
+  /** Placement type this ad was returned for */
+  placement?: Placement;
+  /** ID of the requested placement this ad fills */
+  placement_id?: string;
 }
 
 /**
@@ -204,3 +215,52 @@ export interface ApiErrorResponse {
   /** HTTP status code */
   statusCode?: number;
 }
+
+/**
+ * Per-call options for `getAd()` and `getAdResult()`
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const ads = await client.getAd(params, { signal: controller.signal, timeoutMs: 1500 });
+ *
+ * // A new chat message arrived - abandon the previous request
+ * controller.abort();
+ * ```
+ */
+export interface GetAdOptions {
+  /** Signal that cancels the request, including any pending retries */
+  signal?: AbortSignal;
+  /** Time budget for this call in milliseconds, including retries. Overrides the client `timeout` */
+  timeoutMs?: number;
+  /** Context selection policy for this call. Overrides the client `context` */
+  context?: ContextOptions;
+  /** Set to false to skip the response cache lookup for this call. The response is still cached. */
+  cache?: boolean;
+}
+
+/**
+ * Outcome of an ad request
+ * @description Returned by `getAdResult()`. Distinguishes a filled request from a no-fill,
+ * a request blocked by a frequency cap and a failure, which `getAd()` collapses into `null`.
+ * @example
+ * ```typescript
+ * const result = await client.getAdResult(params);
+ *
+ * switch (result.kind) {
+ *   case 'filled':
+ *     render(result.ads[0]);
+ *     break;
+ *   case 'no_fill':
+ *   case 'capped':
+ *     break;
+ *   case 'error':
+ *     report(result.error);
+ *     break;
+ * }
+ * ```
+ */
+export type AdResult =
+  | { kind: 'filled'; ads: Ad[] }
+  | { kind: 'no_fill' }
+  | { kind: 'capped'; rule: FrequencyCapRule }
+  | { kind: 'error'; error: GravityError };
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { validateAdParams } from './validation';
+import { AdParams } from './types';
+
+const validParams: AdParams = {
+  messages: [{ role: 'user', content: 'What laptop should I buy?' }],
+  sessionId: 'session-123',
+  placements: [{ placement: 'below_response', placement_id: 'main' }],
+  device: { ip: '1.2.3.4', country: 'US' },
+  relevancy: 0.5,
+};
+
+const fieldsOf = (params: AdParams) => validateAdParams(params).errors.map((error) => error.field);
+
+describe('validateAdParams', () => {
+  it('accepts a valid request', () => {
+    expect(validateAdParams(validParams)).toEqual({ valid: true, errors: [] });
+  });
+
+  it('accepts null relevancy and omitted optional fields', () => {
+    const { device, ...withoutDevice } = validParams;
+    expect(validateAdParams({ ...withoutDevice, relevancy: null }).valid).toBe(true);
+  });
+
+  it('requires sessionId', () => {
+    expect(fieldsOf({ ...validParams, sessionId: '' })).toEqual(['sessionId']);
+  });
+
+  it('requires 1-10 placements', () => {
+    expect(fieldsOf({ ...validParams, placements: [] })).toEqual(['placements']);
+
+    const tooMany = Array.from({ length: 11 }, (_, i) => ({
+      placement: 'below_response' as const,
+      placement_id: `slot-${i}`,
+    }));
+    expect(fieldsOf({ ...validParams, placements: tooMany })).toEqual(['placements']);
+  });
+
+  it('requires a valid placement and placement_id', () => {
+    const placements = [{ placement: 'footer', placement_id: '' }] as any;
+    expect(fieldsOf({ ...validParams, placements })).toEqual([
+      'placements[0].placement',
+      'placements[0].placement_id',
+    ]);
+  });
+
+  it('requires relevancy between 0 and 1', () => {
+    expect(fieldsOf({ ...validParams, relevancy: 1.5 })).toEqual(['relevancy']);
+    expect(fieldsOf({ ...validParams, relevancy: -0.1 })).toEqual(['relevancy']);
+  });
+
+  it('requires device.ip when device is given', () => {
+    expect(fieldsOf({ ...validParams, device: { ip: '', country: 'US' } })).toEqual(['device.ip']);
+  });
+
+  it('requires an ISO 3166-1 alpha-2 country', () => {
+    expect(fieldsOf({ ...validParams, device: { ip: '1.2.3.4', country: 'USA' } }))
+      .toEqual(['device.country']);
+    expect(fieldsOf({ ...validParams, device: { ip: '1.2.3.4', country: 'us' } }))
+      .toEqual(['device.country']);
+  });
+
+  it('requires a BCP 47 locale', () => {
+    expect(fieldsOf({ ...validParams, locale: 'pt-BR' })).toEqual([]);
+    expect(fieldsOf({ ...validParams, locale: 'zh-Hant-TW' })).toEqual([]);
+    expect(fieldsOf({ ...validParams, locale: 'en_US' })).toEqual(['locale']);
+  });
+
+  it('validates message roles and content', () => {
+    const messages = [{ role: 'system', content: 42 }] as any;
+    expect(fieldsOf({ ...validParams, messages })).toEqual([
+      'messages[0].role',
+      'messages[0].content',
+    ]);
+  });
+
+  it('reports every invalid field with a message', () => {
+    const { valid, errors } = validateAdParams({ ...validParams, sessionId: '', relevancy: 2 });
+
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      { field: 'sessionId', message: 'is required' },
+      { field: 'relevancy', message: 'must be a number between 0 and 1' },
+    ]);
+  });
+});
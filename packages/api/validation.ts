@@ -0,0 +1,152 @@
+import { AdParams, Placement } from './types';
+
+/**
+ * A single invalid field in an ad request
+ */
+export interface FieldError {
+  /** Path to the field, e.g. `placements[0].placement_id` */
+  field: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Result of validating an ad request
+ */
+export interface ValidationResult {
+  /** Whether the request matches the documented `AdParams` contract */
+  valid: boolean;
+  /** Field-level errors, empty when valid */
+  errors: FieldError[];
+}
+
+/** Valid values for `PlacementObject.placement` */
+const PLACEMENTS: Placement[] = [
+  'above_response',
+  'below_response',
+  'inline_response',
+  'left_response',
+  'right_response',
+];
+
+/** Maximum number of placements per request */
+const MAX_PLACEMENTS = 10;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Check an ad request against the documented `AdParams` contract
+ *
+ * @description Catches the mistakes the API would reject with a 400, without a network call:
+ * missing `sessionId`, 0 or more than 10 placements, missing `placement_id`, `relevancy`
+ * outside 0-1, missing `device.ip`, a `device.country` that is not ISO 3166-1 alpha-2, or a
+ * `locale` that is not a BCP 47 language tag.
+ *
+ * @param params - The ad request to validate
+ * @returns Whether the request is valid, with field-level errors
+ *
+ * @example
+ * ```typescript
+ * const { valid, errors } = validateAdParams(params);
+ *
+ * if (!valid) {
+ *   console.warn(errors.map((e) => `${e.field}: ${e.message}`).join('\n'));
+ * }
+ * ```
+ */
+export function validateAdParams(params: AdParams): ValidationResult {
+  const errors: FieldError[] = [];
+  const fail = (field: string, message: string) => errors.push({ field, message });
+
+  if (!Array.isArray(params.messages)) {
+    fail('messages', 'must be an array');
+  } else {
+    params.messages.forEach((message, i) => {
+      if (!isObject(message)) {
+        fail(`messages[${i}]`, 'must be an object');
+        return;
+      }
+      if (message.role !== 'user' && message.role !== 'assistant') {
+        fail(`messages[${i}].role`, "must be 'user' or 'assistant'");
+      }
+      if (typeof message.content !== 'string') {
+        fail(`messages[${i}].content`, 'must be a string');
+      }
+    });
+  }
+
+  if (!isNonEmptyString(params.sessionId)) {
+    fail('sessionId', 'is required');
+  }
+
+  if (!Array.isArray(params.placements)) {
+    fail('placements', 'is required');
+  } else {
+    if (params.placements.length < 1 || params.placements.length > MAX_PLACEMENTS) {
+      fail('placements', `must contain 1-${MAX_PLACEMENTS} entries`);
+    }
+    params.placements.forEach((placement, i) => {
+      if (!isObject(placement)) {
+        fail(`placements[${i}]`, 'must be an object');
+        return;
+      }
+      if (!PLACEMENTS.includes(placement.placement as Placement)) {
+        fail(`placements[${i}].placement`, `must be one of ${PLACEMENTS.join(', ')}`);
+      }
+      if (!isNonEmptyString(placement.placement_id)) {
+        fail(`placements[${i}].placement_id`, 'is required');
+      }
+    });
+  }
+
+  if (params.userId !== undefined && typeof params.userId !== 'string') {
+    fail('userId', 'must be a string');
+  }
+
+  if (params.device !== undefined) {
+    if (!isObject(params.device)) {
+      fail('device', 'must be an object');
+    } else {
+      if (!isNonEmptyString(params.device.ip)) {
+        fail('device.ip', 'is required');
+      }
+      if (params.device.country !== undefined && !/^[A-Z]{2}$/.test(String(params.device.country))) {
+        fail('device.country', 'must be an ISO 3166-1 alpha-2 code (e.g. US)');
+      }
+    }
+  }
+
+  if (params.locale !== undefined && !/^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/.test(String(params.locale))) {
+    fail('locale', 'must be a BCP 47 language tag (e.g. en-US)');
+  }
+
+  if (params.user !== undefined && !isObject(params.user)) {
+    fail('user', 'must be an object');
+  }
+
+  if (
+    params.excludedTopics !== undefined &&
+    (!Array.isArray(params.excludedTopics) ||
+      !params.excludedTopics.every((topic) => typeof topic === 'string'))
+  ) {
+    fail('excludedTopics', 'must be an array of strings');
+  }
+
+  if (
+    params.relevancy !== undefined &&
+    params.relevancy !== null &&
+    (typeof params.relevancy !== 'number' || !(params.relevancy >= 0 && params.relevancy <= 1))
+  ) {
+    fail('relevancy', 'must be a number between 0 and 1');
+  }
+
+  if (params.testAd !== undefined && typeof params.testAd !== 'boolean') {
+    fail('testAd', 'must be a boolean');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
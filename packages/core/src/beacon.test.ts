@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BeaconQueue } from './beacon';
+
+const url = 'https://tracking.example.com/imp';
+
+/** In-memory stand-in for localStorage */
+function createStorage(initial: Record<string, string> = {}) {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    pending: () => JSON.parse(items.get('gravity:beacons') ?? '[]'),
+  };
+}
+
+const setOnline = (online: boolean) => {
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+};
+
+describe('BeaconQueue', () => {
+  const fetchMock = vi.fn();
+  let queue: BeaconQueue | undefined;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(new Response(null));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    queue?.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('sends beacons with fetch keepalive and reports success', async () => {
+    const storage = createStorage();
+    queue = new BeaconQueue({ storage });
+    const onResult = vi.fn();
+
+    queue.enqueue(url, onResult);
+
+    await vi.waitFor(() => expect(onResult).toHaveBeenCalledWith({ url, success: true, attempts: 1 }));
+    expect(fetchMock).toHaveBeenCalledWith(url, expect.objectContaining({ keepalive: true, mode: 'no-cors' }));
+    expect(storage.pending()).toEqual([]);
+  });
+
+  it('uses sendBeacon while the page is hidden', async () => {
+    const sendBeacon = vi.fn(() => true);
+    vi.stubGlobal('navigator', { ...navigator, onLine: true, sendBeacon });
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+    queue = new BeaconQueue({ storage: createStorage() });
+    const onResult = vi.fn();
+
+    queue.enqueue(url, onResult);
+
+    await vi.waitFor(() => expect(onResult).toHaveBeenCalledWith(expect.objectContaining({ success: true })));
+    expect(sendBeacon).toHaveBeenCalledWith(url);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('persists beacons while offline and sends them when back online', async () => {
+    setOnline(false);
+    const storage = createStorage();
+    queue = new BeaconQueue({ storage });
+    const onResult = vi.fn();
+
+    queue.enqueue(url, onResult);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(storage.pending()).toEqual([expect.objectContaining({ url, attempts: 0 })]);
+
+    setOnline(true);
+    window.dispatchEvent(new Event('online'));
+
+    await vi.waitFor(() => expect(onResult).toHaveBeenCalledWith(expect.objectContaining({ success: true })));
+    expect(storage.pending()).toEqual([]);
+  });
+
+  it('retries failed beacons when the page visibility changes', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const storage = createStorage();
+    queue = new BeaconQueue({ storage, retryDelayMs: 60000 });
+    const onResult = vi.fn();
+
+    queue.enqueue(url, onResult);
+    await vi.waitFor(() => expect(storage.pending()).toEqual([expect.objectContaining({ attempts: 1 })]));
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    await vi.waitFor(() => expect(onResult).toHaveBeenCalledWith({ url, success: true, attempts: 2 }));
+  });
+
+  it('retries failed beacons with backoff', async () => {
+    vi.useFakeTimers();
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    queue = new BeaconQueue({ storage: createStorage(), retryDelayMs: 1000 });
+    const onResult = vi.fn();
+
+    queue.enqueue(url, onResult);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onResult).toHaveBeenCalledWith({ url, success: true, attempts: 2 });
+  });
+
+  it('reports failure after the last attempt', async () => {
+    const error = new TypeError('Failed to fetch');
+    fetchMock.mockRejectedValue(error);
+    const storage = createStorage();
+    queue = new BeaconQueue({ storage, maxAttempts: 1 });
+    const onResult = vi.fn();
+
+    queue.enqueue(url, onResult);
+
+    await vi.waitFor(() => expect(onResult).toHaveBeenCalledWith({ url, success: false, attempts: 1, error }));
+    expect(storage.pending()).toEqual([]);
+  });
+
+  it('sends beacons left over from a previous page load', async () => {
+    const storage = createStorage({
+      'gravity:beacons': JSON.stringify([{ url, attempts: 1, createdAt: Date.now() }]),
+    });
+    queue = new BeaconQueue({ storage });
+
+    queue.flush();
+
+    await vi.waitFor(() => expect(storage.pending()).toEqual([]));
+    expect(fetchMock).toHaveBeenCalledWith(url, expect.anything());
+  });
+
+  it('gives up beacons older than maxAgeMs', () => {
+    const storage = createStorage({
+      'gravity:beacons': JSON.stringify([{ url, attempts: 1, createdAt: Date.now() - 10000 }]),
+    });
+    queue = new BeaconQueue({ storage, maxAgeMs: 5000 });
+
+    queue.flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(storage.pending()).toEqual([]);
+  });
+
+  it('does not queue the same URL twice', () => {
+    fetchMock.mockReturnValue(new Promise(() => {}));
+    queue = new BeaconQueue({ storage: createStorage() });
+
+    queue.enqueue(url);
+    queue.enqueue(url);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends each beacon once across queues sharing storage', async () => {
+    let respond: (response: Response) => void = () => {};
+    fetchMock.mockReturnValue(new Promise((resolve) => (respond = resolve)));
+    const storage = createStorage();
+    queue = new BeaconQueue({ storage });
+    const other = new BeaconQueue({ storage });
+
+    queue.enqueue(url);
+    other.flush();
+    window.dispatchEvent(new Event('online'));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(storage.pending()).toEqual([expect.objectContaining({ url, claimedUntil: expect.any(Number) })]);
+
+    respond(new Response(null));
+    await vi.waitFor(() => expect(storage.pending()).toEqual([]));
+    other.flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    other.destroy();
+  });
+
+  it('retries a beacon whose claim timed out', async () => {
+    const storage = createStorage({
+      'gravity:beacons': JSON.stringify([
+        { url, attempts: 0, createdAt: Date.now(), claimedBy: 'closed-tab', claimedUntil: Date.now() - 1 },
+      ]),
+    });
+    queue = new BeaconQueue({ storage });
+
+    queue.flush();
+
+    await vi.waitFor(() => expect(storage.pending()).toEqual([]));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves beacons claimed by another queue alone', () => {
+    const storage = createStorage({
+      'gravity:beacons': JSON.stringify([
+        { url, attempts: 0, createdAt: Date.now(), claimedBy: 'other-tab', claimedUntil: Date.now() + 10000 },
+      ]),
+    });
+    queue = new BeaconQueue({ storage });
+
+    queue.flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(storage.pending()).toHaveLength(1);
+  });
+
+  it('keeps beacons in memory when storage is unavailable', async () => {
+    queue = new BeaconQueue({ storage: null });
+    const onResult = vi.fn();
+
+    queue.enqueue(url, onResult);
+
+    await vi.waitFor(() => expect(onResult).toHaveBeenCalledWith(expect.objectContaining({ success: true })));
+  });
+});
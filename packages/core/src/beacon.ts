@@ -0,0 +1,313 @@
+/**
+ * Outcome of a tracking beacon
+ */
+export interface BeaconResult {
+  /** The tracking URL */
+  url: string;
+  /** Whether the beacon was delivered */
+  success: boolean;
+  /** Number of delivery attempts made */
+  attempts: number;
+  /** The last delivery error, when the beacon was given up */
+  error?: unknown;
+}
+
+/**
+ * Storage used to keep undelivered beacons across page loads
+ */
+export type BeaconStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/**
+ * Options for a BeaconQueue
+ */
+export interface BeaconQueueOptions {
+  /** Where pending beacons are persisted (default: localStorage, null to keep them in memory) */
+  storage?: BeaconStorage | null;
+
+  /** Storage key for pending beacons (default: "gravity:beacons") */
+  storageKey?: string;
+
+  /** Delivery attempts before a beacon is given up (default: 5) */
+  maxAttempts?: number;
+
+  /** Age in milliseconds after which an undelivered beacon is given up (default: 24 hours) */
+  maxAgeMs?: number;
+
+  /** Delay before the first retry in milliseconds, doubled on each failure (default: 2000) */
+  retryDelayMs?: number;
+
+  /** How long other tabs and queues leave a beacon alone while it is being delivered (default: 30000) */
+  claimTimeoutMs?: number;
+}
+
+/** A beacon waiting to be delivered */
+interface PendingBeacon {
+  url: string;
+  attempts: number;
+  createdAt: number;
+  /** The queue delivering the beacon */
+  claimedBy?: string;
+  /** When the claim lapses, so a tab closed mid-delivery does not strand the beacon */
+  claimedUntil?: number;
+}
+
+function getDefaultStorage(): BeaconStorage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    // Accessing localStorage throws when storage is blocked
+    return null;
+  }
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Send a tracking URL with the most reliable method available
+ *
+ * Uses fetch with keepalive, or sendBeacon when the page is being hidden or fetch is
+ * unavailable, falling back to an image pixel.
+ */
+async function deliver(url: string): Promise<void> {
+  const hidden = typeof document !== 'undefined' && document.visibilityState === 'hidden';
+  const canBeacon = typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function';
+
+  if (canBeacon && (hidden || typeof fetch !== 'function')) {
+    if (!navigator.sendBeacon(url)) {
+      throw new Error('sendBeacon refused the request');
+    }
+    return;
+  }
+
+  if (typeof fetch === 'function') {
+    await fetch(url, { method: 'GET', mode: 'no-cors', credentials: 'include', keepalive: true });
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error('Tracking pixel failed to load'));
+    img.src = url;
+  });
+}
+
+/**
+ * Durable queue for impression and click beacons
+ *
+ * Beacons are persisted until delivered, so impressions survive going offline and
+ * navigating away. Pending beacons are retried with backoff, when the browser comes
+ * back online, when the page visibility changes, and on the next page load.
+ *
+ * Every tab and queue sharing the storage flushes the same list, so a queue claims
+ * each beacon in storage before sending it. Beacons claimed by another queue are
+ * skipped until delivered or until the claim times out, so each URL is sent once.
+ *
+ * @example
+ * ```ts
+ * getBeaconQueue().enqueue(ad.impUrl, (result) => {
+ *   if (!result.success) console.warn('Impression lost', result.error);
+ * });
+ * ```
+ */
+export class BeaconQueue {
+  private storage: BeaconStorage | null;
+  private storageKey: string;
+  private maxAttempts: number;
+  private maxAgeMs: number;
+  private retryDelayMs: number;
+  private claimTimeoutMs: number;
+
+  /** Identifies this queue's claims among the tabs and queues sharing the storage */
+  private id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+  /** Pending beacons when no storage is available */
+  private memory: PendingBeacon[] = [];
+
+  /** URLs currently being delivered */
+  private inFlight = new Set<string>();
+
+  /** Callbacks waiting for the outcome of each URL */
+  private listeners = new Map<string, ((result: BeaconResult) => void)[]>();
+
+  private retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: BeaconQueueOptions = {}) {
+    this.storage = options.storage === undefined ? getDefaultStorage() : options.storage;
+    this.storageKey = options.storageKey ?? 'gravity:beacons';
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.maxAgeMs = options.maxAgeMs ?? 24 * 60 * 60 * 1000;
+    this.retryDelayMs = options.retryDelayMs ?? 2000;
+    this.claimTimeoutMs = options.claimTimeoutMs ?? 30000;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.flush);
+      document.addEventListener('visibilitychange', this.flush);
+    }
+  }
+
+  /**
+   * Queue a tracking URL for delivery
+   *
+   * @param url - The impression or click tracking URL
+   * @param onResult - Called once the beacon is delivered or given up
+   */
+  enqueue(url: string, onResult?: (result: BeaconResult) => void): void {
+    if (onResult) {
+      this.listeners.set(url, [...(this.listeners.get(url) ?? []), onResult]);
+    }
+
+    const pending = this.read();
+    if (!pending.some((beacon) => beacon.url === url)) {
+      this.write([...pending, { url, attempts: 0, createdAt: Date.now() }]);
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Try to deliver every pending beacon
+   */
+  flush = (): void => {
+    if (isOffline()) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const beacon of this.read()) {
+      if (this.inFlight.has(beacon.url) || this.isClaimedElsewhere(beacon, now)) {
+        continue;
+      }
+      if (now - beacon.createdAt > this.maxAgeMs) {
+        this.remove(beacon.url);
+        this.report({ url: beacon.url, success: false, attempts: beacon.attempts, error: new Error('Beacon expired') });
+        continue;
+      }
+      const claimed = this.claim(beacon.url);
+      if (claimed) {
+        void this.send(claimed);
+      }
+    }
+  };
+
+  /**
+   * Stop listening for online and visibility events
+   */
+  destroy(): void {
+    clearTimeout(this.retryTimer);
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.flush);
+      document.removeEventListener('visibilitychange', this.flush);
+    }
+  }
+
+  private async send(beacon: PendingBeacon): Promise<void> {
+    const attempts = beacon.attempts + 1;
+    this.inFlight.add(beacon.url);
+
+    try {
+      await deliver(beacon.url);
+      this.remove(beacon.url);
+      this.report({ url: beacon.url, success: true, attempts });
+    } catch (error) {
+      if (attempts >= this.maxAttempts) {
+        this.remove(beacon.url);
+        this.report({ url: beacon.url, success: false, attempts, error });
+      } else {
+        this.update(beacon.url, { attempts, claimedBy: undefined, claimedUntil: undefined });
+        this.scheduleRetry(attempts);
+      }
+    } finally {
+      this.inFlight.delete(beacon.url);
+    }
+  }
+
+  private isClaimedElsewhere(beacon: PendingBeacon, now: number): boolean {
+    return !!beacon.claimedBy && beacon.claimedBy !== this.id && (beacon.claimedUntil ?? 0) > now;
+  }
+
+  /**
+   * Mark a beacon in storage as being delivered by this queue
+   *
+   * @returns The claimed beacon, or undefined when it is gone or another queue claimed it first
+   */
+  private claim(url: string): PendingBeacon | undefined {
+    const now = Date.now();
+    const beacon = this.read().find((other) => other.url === url);
+    if (!beacon || this.isClaimedElsewhere(beacon, now)) {
+      return undefined;
+    }
+
+    this.update(url, { claimedBy: this.id, claimedUntil: now + this.claimTimeoutMs });
+    // Read back the claim, in case another tab wrote its own in the meantime
+    const claimed = this.read().find((other) => other.url === url);
+    return claimed?.claimedBy === this.id ? claimed : undefined;
+  }
+
+  private scheduleRetry(attempts: number): void {
+    if (this.retryTimer !== undefined) {
+      return;
+    }
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.flush();
+    }, this.retryDelayMs * 2 ** (attempts - 1));
+  }
+
+  private report(result: BeaconResult): void {
+    const listeners = this.listeners.get(result.url) ?? [];
+    this.listeners.delete(result.url);
+    listeners.forEach((listener) => listener(result));
+  }
+
+  private update(url: string, changes: Partial<PendingBeacon>): void {
+    this.write(this.read().map((beacon) => (beacon.url === url ? { ...beacon, ...changes } : beacon)));
+  }
+
+  private remove(url: string): void {
+    this.write(this.read().filter((beacon) => beacon.url !== url));
+  }
+
+  private read(): PendingBeacon[] {
+    if (!this.storage) {
+      return this.memory;
+    }
+
+    try {
+      const stored = JSON.parse(this.storage.getItem(this.storageKey) ?? '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return this.memory;
+    }
+  }
+
+  private write(pending: PendingBeacon[]): void {
+    this.memory = pending;
+    if (!this.storage) {
+      return;
+    }
+
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(pending));
+    } catch {
+      // Storage is full or blocked; keep the beacons in memory instead
+      this.storage = null;
+    }
+  }
+}
+
+let defaultQueue: BeaconQueue | undefined;
+
+/**
+ * The beacon queue shared by all Gravity components
+ *
+ * Created on first use, which also retries beacons left over from previous page loads.
+ */
+export function getBeaconQueue(): BeaconQueue {
+  if (!defaultQueue) {
+    defaultQueue = new BeaconQueue();
+    defaultQueue.flush();
+  }
+  return defaultQueue;
+}
@@ -0,0 +1,56 @@
+import type { AdClickEvent, AdClickType, AdResponse } from './types';
+
+/**
+ * The parts of a React or DOM mouse event used to describe a click
+ */
+type ClickSource = Pick<
+  MouseEvent,
+  'button' | 'detail' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey' | 'clientX' | 'clientY'
+> & { currentTarget: EventTarget | null };
+
+/**
+ * Classify a click as primary, middle, modified or keyboard activation
+ */
+export function getClickType(event: ClickSource | undefined): AdClickType {
+  if (!event) return 'primary';
+  if (event.button === 1) return 'middle';
+  if (event.ctrlKey || event.metaKey || event.shiftKey || event.altKey) return 'modified';
+  // Browsers report keyboard activation of a link as a click with no click count
+  if (event.detail === 0) return 'keyboard';
+  return 'primary';
+}
+
+/**
+ * Describe a click on an ad for `onClickTracked`
+ *
+ * @param ad - The clicked ad
+ * @param event - The click, when there is one
+ * @param impressionTime - When the impression was counted, or null if it was not
+ * @param now - The time of the click
+ */
+export function createClickEvent(
+  ad: AdResponse,
+  event: ClickSource | undefined,
+  impressionTime: number | null,
+  now: number
+): AdClickEvent {
+  const type = getClickType(event);
+  const target = event?.currentTarget;
+  const rect = target instanceof Element ? target.getBoundingClientRect() : undefined;
+
+  return {
+    ad,
+    placementId: ad.placement_id,
+    type,
+    modifiers: {
+      ctrl: !!event?.ctrlKey,
+      meta: !!event?.metaKey,
+      shift: !!event?.shiftKey,
+      alt: !!event?.altKey,
+    },
+    position:
+      event && rect && type !== 'keyboard' ? { x: event.clientX - rect.left, y: event.clientY - rect.top } : null,
+    timestamp: now,
+    timeSinceImpressionMs: impressionTime === null ? null : now - impressionTime,
+  };
+}
@@ -0,0 +1,118 @@
+import type { AdClickEvent, AdResponse } from './types';
+import { getBeaconQueue, BeaconResult } from './beacon';
+import { observeViewability, ViewabilityOptions } from './viewability';
+import { createClickEvent } from './clicks';
+
+/**
+ * Tracking options for server-rendered ads
+ */
+export interface HydrateAdOptions {
+  /** Disable automatic impression tracking */
+  disableImpressionTracking?: boolean;
+
+  /** Count the impression once the ad is viewable instead of on hydration (default: false) */
+  viewability?: boolean | ViewabilityOptions;
+
+  /** Ignore repeat clicks within this many milliseconds (default: 500) */
+  doubleClickMs?: number;
+
+  /** Called when the impression beacon is delivered or given up */
+  onImpression?: (result: BeaconResult) => void;
+
+  /** Called when the ad is clicked */
+  onClickTracked?: (event: AdClickEvent) => void;
+}
+
+/** Impression URLs already counted on this page, so re-hydration never fires twice */
+const trackedImpressions = new Set<string>();
+
+/**
+ * Read the ad embedded in server-rendered markup
+ */
+function readAd(element: Element): AdResponse | null {
+  try {
+    const ad = JSON.parse(element.getAttribute('data-gravity-ad-data') ?? 'null');
+    return ad && typeof ad.adText === 'string' ? ad : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Attach impression and click tracking to an ad rendered by `AdMarkup`
+ *
+ * @param element - An element with a `data-gravity-ad-data` attribute
+ * @returns A function that removes the tracking
+ */
+export function hydrateAd(element: HTMLElement, options: HydrateAdOptions = {}): () => void {
+  const ad = readAd(element);
+  return ad ? trackAdElement(element, ad, options) : () => {};
+}
+
+/**
+ * Attach impression and click tracking to an element showing an ad
+ *
+ * Follows the same rules as AdBanner: the impression goes through the shared beacon
+ * queue once per page, and clicks are reported with repeat clicks ignored. A favicon
+ * that failed to load is hidden.
+ *
+ * @returns A function that removes the tracking
+ */
+export function trackAdElement(element: HTMLElement, ad: AdResponse, options: HydrateAdOptions = {}): () => void {
+  const { disableImpressionTracking = false, viewability = false, doubleClickMs = 500 } = options;
+  const cleanups: (() => void)[] = [];
+  let impressionTime: number | null = null;
+  let lastClickTime: number | null = null;
+
+  const impUrl = ad.impUrl;
+  if (impUrl && !disableImpressionTracking && !trackedImpressions.has(impUrl)) {
+    const trackImpression = () => {
+      trackedImpressions.add(impUrl);
+      impressionTime = Date.now();
+      getBeaconQueue().enqueue(impUrl, options.onImpression);
+    };
+
+    if (viewability === false) {
+      trackImpression();
+    } else {
+      cleanups.push(observeViewability(element, viewability === true ? {} : viewability, trackImpression));
+    }
+  }
+
+  const handleClick = (event: MouseEvent) => {
+    // Track middle clicks, which open the ad in a new tab; ignore right clicks
+    if (event.type === 'auxclick' && event.button !== 1) {
+      return;
+    }
+
+    const now = Date.now();
+    if (lastClickTime !== null && now - lastClickTime < doubleClickMs) {
+      event.preventDefault();
+      return;
+    }
+    lastClickTime = now;
+
+    options.onClickTracked?.(createClickEvent(ad, event, impressionTime, now));
+  };
+
+  element.addEventListener('click', handleClick);
+  element.addEventListener('auxclick', handleClick);
+  cleanups.push(() => {
+    element.removeEventListener('click', handleClick);
+    element.removeEventListener('auxclick', handleClick);
+  });
+
+  const favicon = element.querySelector<HTMLImageElement>('img[data-gravity-ad-favicon]');
+  if (favicon) {
+    const hideFavicon = () => {
+      favicon.style.display = 'none';
+    };
+    if (favicon.complete && favicon.naturalWidth === 0 && favicon.getAttribute('src')) {
+      hideFavicon();
+    }
+    favicon.addEventListener('error', hideFavicon);
+    cleanups.push(() => favicon.removeEventListener('error', hideFavicon));
+  }
+
+  return () => cleanups.forEach((cleanup) => cleanup());
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { getSponsoredLabel, getTextDirection, resolveAdLocale } from './i18n';
+
+describe('getSponsoredLabel', () => {
+  it('translates by full tag, then by language', () => {
+    expect(getSponsoredLabel('de-AT')).toBe('Gesponsert');
+    expect(getSponsoredLabel('zh-TW')).toBe('贊助');
+    expect(getSponsoredLabel('zh-CN')).toBe('赞助');
+    expect(getSponsoredLabel('pt_BR')).toBe('Patrocinado');
+  });
+
+  it('falls back to English', () => {
+    expect(getSponsoredLabel()).toBe('Sponsored');
+    expect(getSponsoredLabel('xx-YY')).toBe('Sponsored');
+  });
+
+  it('prefers the given labels over the built-in translations', () => {
+    expect(getSponsoredLabel('de-DE', { de: 'Anzeige' })).toBe('Anzeige');
+    expect(getSponsoredLabel('de-CH', { 'de-CH': 'Werbung', de: 'Anzeige' })).toBe('Werbung');
+    expect(getSponsoredLabel('fr', { de: 'Anzeige' })).toBe('Sponsorisé');
+  });
+});
+
+describe('getTextDirection', () => {
+  it('detects right-to-left languages and scripts', () => {
+    expect(getTextDirection('he-IL')).toBe('rtl');
+    expect(getTextDirection('ar')).toBe('rtl');
+    expect(getTextDirection('az-Arab')).toBe('rtl');
+    expect(getTextDirection('en-US')).toBe('ltr');
+  });
+});
+
+describe('resolveAdLocale', () => {
+  it('lets explicit props win over the locale', () => {
+    expect(resolveAdLocale({ locale: 'ar-EG' })).toEqual({ labelText: 'مُموَّل', dir: 'rtl' });
+    expect(resolveAdLocale({ locale: 'ar-EG', labelText: 'إعلان', dir: 'ltr' })).toEqual({ labelText: 'إعلان', dir: 'ltr' });
+  });
+
+  it('leaves the direction to the page without a locale', () => {
+    expect(resolveAdLocale({})).toEqual({ labelText: 'Sponsored', dir: undefined });
+  });
+});
@@ -0,0 +1,117 @@
+import type { TextDirection } from './types';
+
+/**
+ * Translations of the "Sponsored" disclosure label, by BCP 47 language tag
+ *
+ * Lookups try the full tag first, then its language, so "zh-TW" and "zh" can differ.
+ */
+export const sponsoredLabels: Record<string, string> = {
+  ar: 'مُموَّل',
+  cs: 'Sponzorováno',
+  da: 'Sponsoreret',
+  de: 'Gesponsert',
+  el: 'Χορηγούμενο',
+  en: 'Sponsored',
+  es: 'Patrocinado',
+  fa: 'حمایت‌شده',
+  fi: 'Sponsoroitu',
+  fr: 'Sponsorisé',
+  he: 'ממומן',
+  hi: 'प्रायोजित',
+  hu: 'Szponzorált',
+  id: 'Bersponsor',
+  it: 'Sponsorizzato',
+  ja: 'スポンサー',
+  ko: '스폰서',
+  nb: 'Sponset',
+  nl: 'Gesponsord',
+  no: 'Sponset',
+  pl: 'Sponsorowane',
+  pt: 'Patrocinado',
+  ro: 'Sponsorizat',
+  ru: 'Реклама',
+  sv: 'Sponsrad',
+  th: 'ได้รับการสนับสนุน',
+  tr: 'Sponsorlu',
+  uk: 'Реклама',
+  ur: 'سپانسر شدہ',
+  vi: 'Được tài trợ',
+  zh: '赞助',
+  'zh-hant': '贊助',
+  'zh-hk': '贊助',
+  'zh-tw': '贊助',
+};
+
+/** Languages written right to left */
+const RTL_LANGUAGES = new Set(['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'iw', 'ps', 'sd', 'ug', 'ur', 'yi']);
+
+/**
+ * The tags to try for a locale, most specific first, e.g. "zh-hant-tw", "zh-hant", "zh"
+ */
+function localeCandidates(locale: string): string[] {
+  const parts = locale.trim().toLowerCase().replace(/_/g, '-').split('-');
+  return parts.map((_, i) => parts.slice(0, parts.length - i).join('-'));
+}
+
+/**
+ * Look up a locale in a table by its full tag, then by shorter prefixes
+ */
+function lookup(table: Record<string, string> | undefined, candidates: string[]): string | undefined {
+  if (!table) return undefined;
+  const normalized: Record<string, string> = {};
+  for (const [tag, value] of Object.entries(table)) {
+    normalized[tag.toLowerCase().replace(/_/g, '-')] = value;
+  }
+  return candidates.map((candidate) => normalized[candidate]).find((value) => value !== undefined);
+}
+
+/**
+ * The disclosure label for a locale
+ *
+ * @param locale - A BCP 47 language tag, e.g. "ar-EG" (default: English)
+ * @param labels - Labels that take precedence over the built-in translations, by language tag
+ * @returns The translated label, or "Sponsored" for unknown languages
+ *
+ * @example
+ * ```ts
+ * getSponsoredLabel('de-AT'); // "Gesponsert"
+ * getSponsoredLabel('de-AT', { de: 'Anzeige' }); // "Anzeige"
+ * ```
+ */
+export function getSponsoredLabel(locale?: string, labels?: Record<string, string>): string {
+  const candidates = localeCandidates(locale || 'en');
+  return lookup(labels, candidates) ?? lookup(sponsoredLabels, candidates) ?? sponsoredLabels.en;
+}
+
+/**
+ * The text direction of a locale's script
+ *
+ * @param locale - A BCP 47 language tag, e.g. "he-IL"
+ */
+export function getTextDirection(locale: string): 'ltr' | 'rtl' {
+  const candidates = localeCandidates(locale);
+  const language = candidates[candidates.length - 1];
+  // Languages like Azeri and Kurdish are also written in Arabic script
+  if (candidates.some((tag) => tag.endsWith('-arab') || tag.endsWith('-hebr'))) {
+    return 'rtl';
+  }
+  return RTL_LANGUAGES.has(language) ? 'rtl' : 'ltr';
+}
+
+/**
+ * The label text and direction of an ad, from its props and the provider's defaults
+ *
+ * An explicit `labelText` or `dir` wins. Without a locale the direction is left to the page.
+ */
+export function resolveAdLocale(options: {
+  locale?: string;
+  dir?: TextDirection;
+  labelText?: string;
+  labels?: Record<string, string>;
+}): { labelText: string; dir: TextDirection | undefined } {
+  const { locale, labels } = options;
+  return {
+    labelText: options.labelText ?? getSponsoredLabel(locale, labels),
+    dir: options.dir ?? (locale ? getTextDirection(locale) : undefined),
+  };
+}
@@ -0,0 +1,60 @@
+// Themes
+export {
+  autoTheme,
+  autoThemeCss,
+  createTheme,
+  getThemeVariables,
+  presetThemes,
+  resolveTheme,
+  themeValue,
+} from './theme';
+
+// Styles
+export {
+  getAdBannerStyles,
+  getThemeStyles,
+  baseContainerStyle,
+  baseLabelStyle,
+  sizeStyles,
+  getLabelColor,
+  getInteractionStyles,
+  visuallyHiddenStyle,
+  getSkeletonStyles,
+  skeletonLineStyle,
+  cardStyles,
+  getFaviconFallbackStyles,
+  getCtaStyles,
+  inlineAdContainerStyle,
+} from './styles';
+
+// Markup
+export { buildAdMarkup } from './markup';
+
+// Placements and locales
+export { selectAd } from './placement';
+export { getSponsoredLabel, getTextDirection, resolveAdLocale, sponsoredLabels } from './i18n';
+
+// Tracking
+export { BeaconQueue, getBeaconQueue } from './beacon';
+export { observeViewability } from './viewability';
+export { createClickEvent, getClickType } from './clicks';
+export { hydrateAd, trackAdElement } from './hydrate';
+
+// Types
+export type {
+  AdResponse,
+  AdPlacement,
+  AdClickEvent,
+  AdClickType,
+  AdTheme,
+  AdThemePreset,
+  AdSize,
+  GravityTheme,
+  TextDirection,
+  StyleObject,
+} from './types';
+export type { InteractionState } from './styles';
+export type { AdMarkupNode, AdMarkupOptions, AdMarkupPart } from './markup';
+export type { BeaconResult, BeaconQueueOptions, BeaconStorage } from './beacon';
+export type { ViewabilityOptions } from './viewability';
+export type { HydrateAdOptions } from './hydrate';
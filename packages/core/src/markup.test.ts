@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { buildAdMarkup, AdMarkupNode } from './markup';
+import { autoTheme, autoThemeCss, presetThemes } from './theme';
+import type { AdResponse } from './types';
+
+const ad: AdResponse = {
+  adText: 'Try our product',
+  title: 'Acme',
+  cta: 'Learn more',
+  brandName: 'acme',
+  favicon: 'https://acme.example.com/favicon.ico',
+  clickUrl: 'https://example.com/click',
+};
+
+/** The text of a node and its descendants */
+function textOf(node: AdMarkupNode | string): string {
+  return typeof node === 'string' ? node : node.children.map(textOf).join('');
+}
+
+describe('buildAdMarkup', () => {
+  it('builds a banner link with the disclosure first', () => {
+    const markup = buildAdMarkup(ad, presetThemes.light, { labelText: 'Sponsored' });
+
+    expect(markup.tag).toBe('a');
+    expect(markup.part).toBe('container');
+    expect(markup.attributes).toEqual({
+      'data-gravity-ad': '',
+      href: 'https://example.com/click',
+      target: '_blank',
+      rel: 'noopener noreferrer sponsored',
+    });
+    expect(textOf(markup)).toBe('Sponsored: SponsoredTry our product');
+  });
+
+  it('renders plain content without a click URL', () => {
+    const markup = buildAdMarkup({ adText: 'No link' }, presetThemes.light, { labelText: 'Sponsored', showLabel: false });
+
+    expect(markup.tag).toBe('div');
+    expect(markup.style.cursor).toBe('default');
+    expect(textOf(markup)).toBe('Sponsored: No link');
+  });
+
+  it('builds a card with favicon, brand, title and call to action', () => {
+    const markup = buildAdMarkup(ad, presetThemes.dark, { labelText: 'Anzeige', variant: 'card', dir: 'rtl' });
+
+    expect(markup.attributes).toMatchObject({ 'data-gravity-ad-layout': 'card', dir: 'rtl' });
+    expect(markup.style.display).toBe('flex');
+    expect(textOf(markup)).toBe('Anzeige: acmeAnzeigeAcmeTry our productLearn more');
+    const header = markup.children[1] as AdMarkupNode;
+    expect(header.children[0]).toMatchObject({ tag: 'img', part: 'favicon' });
+  });
+
+  it('shows the brand initial once the favicon failed', () => {
+    const markup = buildAdMarkup(ad, presetThemes.light, { labelText: 'Sponsored', variant: 'card', faviconFailed: true });
+
+    const header = markup.children[1] as AdMarkupNode;
+    expect(header.children[0]).toMatchObject({ tag: 'span', children: ['A'] });
+  });
+
+  it('includes the color scheme stylesheet for the auto theme', () => {
+    const markup = buildAdMarkup(ad, autoTheme, { labelText: 'Sponsored' });
+
+    expect(markup.attributes['data-gravity-theme']).toBe('auto');
+    expect(markup.children[0]).toMatchObject({ tag: 'style', children: [autoThemeCss] });
+    expect(markup.style.backgroundColor).toBe('var(--gravity-ad-bg, var(--gravity-ad-auto-bg))');
+  });
+});
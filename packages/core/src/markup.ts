@@ -0,0 +1,198 @@
+import type { AdResponse, AdSize, GravityTheme, StyleObject, TextDirection } from './types';
+import {
+  getAdBannerStyles,
+  baseLabelStyle,
+  getInteractionStyles,
+  getLabelColor,
+  visuallyHiddenStyle,
+  cardStyles,
+  getFaviconFallbackStyles,
+  getCtaStyles,
+  InteractionState,
+} from './styles';
+import { autoTheme, autoThemeCss } from './theme';
+
+/**
+ * Parts of an ad that renderers attach class names and event handlers to
+ */
+export type AdMarkupPart = 'container' | 'text' | 'favicon';
+
+/**
+ * An element of an ad's markup, independent of the framework that renders it
+ */
+export interface AdMarkupNode {
+  tag: 'a' | 'div' | 'span' | 'p' | 'strong' | 'img' | 'style';
+  /** HTML attributes by their HTML name, e.g. `aria-hidden` */
+  attributes: Record<string, string>;
+  style: StyleObject;
+  children: (AdMarkupNode | string)[];
+  /** Which part of the ad this element is, when renderers need to find it */
+  part?: AdMarkupPart;
+}
+
+/**
+ * Display options for `buildAdMarkup`
+ */
+export interface AdMarkupOptions {
+  /** Render the ad as a banner or a card with brand, title and call to action (default: "banner") */
+  variant?: 'banner' | 'card';
+  /** Size preset (default: "medium") */
+  size?: AdSize;
+  /** The disclosure label, already translated */
+  labelText: string;
+  /** Show the label visibly; screen readers hear it either way (default: true) */
+  showLabel?: boolean;
+  /** Text direction (default: inherited from the page) */
+  dir?: TextDirection;
+  /** Open the link in a new tab (default: true) */
+  openInNewTab?: boolean;
+  borderRadius?: number | string;
+  backgroundColor?: string;
+  textColor?: string;
+  accentColor?: string;
+  /** Show the favicon or brand initial in the card variant (default: true) */
+  showFavicon?: boolean;
+  /** Show the brand initial instead of the favicon, e.g. after it failed to load */
+  faviconFailed?: boolean;
+  /** Hover and keyboard focus state, for renderers that restyle on every change */
+  interaction?: InteractionState;
+  /** Extra container styles */
+  style?: object;
+  /** Extra label styles */
+  labelStyle?: object;
+  /** Extra ad text styles */
+  textStyle?: object;
+}
+
+function node(
+  tag: AdMarkupNode['tag'],
+  style: StyleObject,
+  children: (AdMarkupNode | string | null | undefined | false)[] = [],
+  attributes: Record<string, string> = {},
+  part?: AdMarkupPart
+): AdMarkupNode {
+  return {
+    tag,
+    attributes,
+    style,
+    children: children.filter((child): child is AdMarkupNode | string => !!child),
+    ...(part && { part }),
+  };
+}
+
+/**
+ * Describe an ad's banner or card markup
+ *
+ * The single source of the ad layouts: React's AdBanner, AdCard and AdMarkup and
+ * `renderAd` from @gravity-ai/web all render this tree, so server and client markup match.
+ * Screen readers hear the label before the ad; the visible label is hidden from them.
+ *
+ * @param ad - The ad to render
+ * @param theme - Theme values, e.g. from `resolveTheme`
+ * @param options - Display options
+ */
+export function buildAdMarkup(ad: AdResponse, theme: GravityTheme, options: AdMarkupOptions): AdMarkupNode {
+  const {
+    variant = 'banner',
+    size = 'medium',
+    labelText,
+    showLabel = true,
+    dir,
+    openInNewTab = true,
+    accentColor,
+    textColor,
+    showFavicon = true,
+  } = options;
+  const isCard = variant === 'card';
+
+  const containerStyles: StyleObject = {
+    ...getAdBannerStyles(theme, size, {
+      backgroundColor: options.backgroundColor,
+      textColor,
+      borderRadius: options.borderRadius,
+      style: options.style,
+    }),
+    ...(options.interaction && getInteractionStyles(theme, options.interaction, accentColor)),
+  };
+  if (isCard) {
+    Object.assign(containerStyles, { display: 'flex', flexDirection: 'column', alignItems: 'flex-start' });
+  }
+  if (!ad.clickUrl) {
+    containerStyles.cursor = 'default';
+  }
+
+  const attributes: Record<string, string> = { 'data-gravity-ad': '' };
+  if (ad.clickUrl) {
+    attributes.href = ad.clickUrl;
+    if (openInNewTab) {
+      attributes.target = '_blank';
+    }
+    attributes.rel = openInNewTab ? 'noopener noreferrer sponsored' : 'sponsored';
+  }
+  if (dir) {
+    attributes.dir = dir;
+  }
+  if (isCard) {
+    attributes['data-gravity-ad-layout'] = 'card';
+  }
+
+  // The "auto" theme's colors come from a stylesheet, so they are right before any script runs
+  const isAuto = theme === autoTheme;
+  if (isAuto) {
+    attributes['data-gravity-theme'] = 'auto';
+  }
+  const stylesheet = isAuto && node('style', {}, [autoThemeCss]);
+
+  const disclosure = node('span', visuallyHiddenStyle, [`${labelText}: `]);
+  const label =
+    showLabel &&
+    node(
+      'span',
+      {
+        ...baseLabelStyle,
+        ...(isCard && cardStyles.label),
+        color: getLabelColor(theme, accentColor, textColor),
+        ...options.labelStyle,
+      },
+      [labelText],
+      { 'aria-hidden': 'true' }
+    );
+  const text = node('p', { ...(isCard ? cardStyles.body : { margin: 0 }), ...options.textStyle }, [ad.adText], {}, 'text');
+
+  // Without a click URL the ad is plain content, not a link
+  const tag = ad.clickUrl ? 'a' : 'div';
+
+  if (!isCard) {
+    return node(tag, containerStyles, [stylesheet, disclosure, label, text], attributes, 'container');
+  }
+
+  const initial = ad.brandName?.trim().charAt(0).toUpperCase();
+  let favicon: AdMarkupNode | null = null;
+  if (showFavicon && ad.favicon && !options.faviconFailed) {
+    favicon = node('img', cardStyles.favicon, [], { src: ad.favicon, alt: '', 'data-gravity-ad-favicon': '' }, 'favicon');
+  } else if (showFavicon && initial) {
+    favicon = node('span', getFaviconFallbackStyles(theme, accentColor), [initial], {
+      'aria-hidden': 'true',
+      'data-gravity-ad-favicon': '',
+    });
+  }
+
+  const header =
+    (favicon || ad.brandName || label) &&
+    node('span', cardStyles.header, [favicon, ad.brandName && node('span', cardStyles.brand, [ad.brandName]), label]);
+
+  return node(
+    tag,
+    containerStyles,
+    [
+      stylesheet,
+      disclosure,
+      header,
+      ad.title && node('strong', cardStyles.title, [ad.title]),
+      text,
+      ad.cta && node('span', getCtaStyles(theme, accentColor), [ad.cta]),
+    ],
+    attributes,
+    'container'
+  );
+}
@@ -0,0 +1,37 @@
+import type { AdResponse } from './types';
+
+/**
+ * Pick the ad to render for a placement
+ *
+ * @description With a list of ads, returns the one whose `placement_id` matches, or the
+ * first ad when no placement is given. A single ad is returned unless it was served for
+ * a different placement.
+ *
+ * @example
+ * ```tsx
+ * const ads = await client.getAd({ messages, sessionId, placements });
+ *
+ * <AdBanner ad={ads} placementId="header" />
+ * <AdText ad={ads} placementId="footer" />
+ * ```
+ */
+export function selectAd(
+  ad: AdResponse | AdResponse[] | null | undefined,
+  placementId?: string
+): AdResponse | null {
+  if (!ad) {
+    return null;
+  }
+
+  if (Array.isArray(ad)) {
+    if (placementId === undefined) {
+      return ad[0] ?? null;
+    }
+    return ad.find((candidate) => candidate.placement_id === placementId) ?? null;
+  }
+
+  if (placementId !== undefined && ad.placement_id !== undefined && ad.placement_id !== placementId) {
+    return null;
+  }
+  return ad;
+}
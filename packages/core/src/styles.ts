@@ -0,0 +1,283 @@
+import type { AdSize, GravityTheme, StyleObject } from './types';
+import { themeValue } from './theme';
+
+/**
+ * Base styles for the ad container
+ */
+export const baseContainerStyle: StyleObject = {
+  display: 'block',
+  textDecoration: 'none',
+  cursor: 'pointer',
+  transition: 'transform 0.2s ease, box-shadow 0.2s ease',
+  boxSizing: 'border-box',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+};
+
+/**
+ * Colors, border and shadow for a theme, overridable through CSS variables
+ */
+export function getThemeStyles(theme: GravityTheme): StyleObject {
+  return {
+    backgroundColor: themeValue(theme, 'background'),
+    color: themeValue(theme, 'text'),
+    border: themeValue(theme, 'border'),
+    boxShadow: themeValue(theme, 'shadow'),
+  };
+}
+
+/**
+ * Size-specific styles
+ */
+export const sizeStyles: Record<AdSize, StyleObject> = {
+  small: {
+    padding: '8px 12px',
+    fontSize: '13px',
+    lineHeight: '1.4',
+    borderRadius: '6px',
+  },
+  medium: {
+    padding: '12px 16px',
+    fontSize: '14px',
+    lineHeight: '1.5',
+    borderRadius: '8px',
+  },
+  large: {
+    padding: '16px 20px',
+    fontSize: '16px',
+    lineHeight: '1.6',
+    borderRadius: '10px',
+  },
+  responsive: {
+    padding: 'clamp(8px, 2vw, 16px) clamp(12px, 3vw, 20px)',
+    fontSize: 'clamp(13px, 1.5vw, 16px)',
+    lineHeight: '1.5',
+    borderRadius: 'clamp(6px, 1vw, 10px)',
+  },
+};
+
+/**
+ * Label styles
+ */
+export const baseLabelStyle: StyleObject = {
+  fontSize: '10px',
+  fontWeight: 600,
+  textTransform: 'uppercase',
+  letterSpacing: '0.5px',
+  marginBottom: '4px',
+  display: 'block',
+};
+
+/**
+ * Hover styles (applied via inline style for simplicity)
+ */
+export const getHoverTransform = (theme: GravityTheme): string => {
+  if (theme.hoverShadow === 'none') return 'none';
+  return 'translateY(-1px)';
+};
+
+/**
+ * Shadow applied on hover
+ */
+export const getHoverShadow = (theme: GravityTheme): string => themeValue(theme, 'hoverShadow');
+
+/**
+ * How the user is interacting with an ad
+ */
+export interface InteractionState {
+  hovered: boolean;
+  /** Focused from the keyboard, i.e. matching `:focus-visible` */
+  focusVisible: boolean;
+  /** The user asked for less motion with `prefers-reduced-motion` */
+  reducedMotion: boolean;
+}
+
+/**
+ * Hover and keyboard focus styles
+ *
+ * Keyboard focus gets the same lift as hover, plus an outline. With reduced motion the
+ * shadow still changes but the ad doesn't move.
+ */
+export function getInteractionStyles(theme: GravityTheme, state: InteractionState, accentColor?: string): StyleObject {
+  const styles: StyleObject = {};
+
+  if (state.reducedMotion) {
+    styles.transition = 'none';
+  }
+  if ((state.hovered || state.focusVisible) && theme.hoverShadow !== 'none') {
+    if (!state.reducedMotion) {
+      styles.transform = getHoverTransform(theme);
+    }
+    styles.boxShadow = getHoverShadow(theme);
+  }
+  if (state.focusVisible) {
+    styles.outline = `2px solid ${accentColor || themeValue(theme, 'focusRing')}`;
+    styles.outlineOffset = '2px';
+  }
+
+  return styles;
+}
+
+/**
+ * Sponsored label color, following a custom text color so the label keeps its contrast
+ */
+export const getLabelColor = (theme: GravityTheme, accentColor?: string, textColor?: string): string =>
+  accentColor || textColor || themeValue(theme, 'label');
+
+/**
+ * Hides content visually while keeping it for screen readers
+ */
+export const visuallyHiddenStyle: StyleObject = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  padding: 0,
+  margin: '-1px',
+  overflow: 'hidden',
+  clip: 'rect(0, 0, 0, 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};
+
+/**
+ * Combine styles for a complete ad banner
+ */
+export function getAdBannerStyles(
+  theme: GravityTheme,
+  size: AdSize,
+  customStyles?: {
+    backgroundColor?: string;
+    textColor?: string;
+    borderRadius?: number | string;
+    /** Extra styles applied last, e.g. a React `style` prop */
+    style?: object;
+  }
+): StyleObject {
+  const combined: StyleObject = {
+    ...baseContainerStyle,
+    ...getThemeStyles(theme),
+    ...sizeStyles[size],
+  };
+
+  // Apply custom overrides
+  if (customStyles?.backgroundColor) {
+    combined.backgroundColor = customStyles.backgroundColor;
+  }
+  if (customStyles?.textColor) {
+    combined.color = customStyles.textColor;
+  }
+  if (customStyles?.borderRadius !== undefined) {
+    combined.borderRadius = customStyles.borderRadius;
+  }
+  if (customStyles?.style) {
+    Object.assign(combined, customStyles.style);
+  }
+
+  return combined;
+}
+
+/**
+ * Styles for the placeholder shown while an ad loads
+ */
+export function getSkeletonStyles(theme: GravityTheme, size: AdSize): StyleObject {
+  return {
+    ...baseContainerStyle,
+    ...getThemeStyles(theme),
+    ...sizeStyles[size],
+    cursor: 'default',
+    minHeight: '3.5em',
+    opacity: 0.6,
+  };
+}
+
+/**
+ * Styles for one shimmer line inside the loading placeholder
+ */
+export const skeletonLineStyle: StyleObject = {
+  height: '0.8em',
+  borderRadius: '4px',
+  backgroundColor: 'currentColor',
+  opacity: 0.15,
+  marginTop: '0.5em',
+};
+
+/**
+ * Styles for the parts of an AdCard
+ */
+export const cardStyles: Record<'header' | 'favicon' | 'brand' | 'label' | 'title' | 'body', StyleObject> = {
+  header: {
+    display: 'flex',
+    width: '100%',
+    alignItems: 'center',
+    gap: '8px',
+    marginBottom: '8px',
+  },
+  favicon: {
+    width: '20px',
+    height: '20px',
+    borderRadius: '4px',
+    flexShrink: 0,
+    objectFit: 'contain',
+  },
+  brand: {
+    fontWeight: 600,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  // Pushed to the end of the header, which is the left in right-to-left text
+  label: {
+    marginBottom: 0,
+    marginInlineStart: 'auto',
+  },
+  title: {
+    display: 'block',
+    margin: '0 0 4px',
+    fontWeight: 600,
+    fontSize: '1.1em',
+  },
+  body: {
+    margin: 0,
+  },
+};
+
+/**
+ * Letter shown in place of a missing or broken favicon
+ */
+export function getFaviconFallbackStyles(theme: GravityTheme, accentColor?: string): StyleObject {
+  return {
+    ...cardStyles.favicon,
+    display: 'inline-flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    fontSize: '12px',
+    fontWeight: 700,
+    color: '#ffffff',
+    backgroundColor: accentColor || themeValue(theme, 'accent'),
+  };
+}
+
+/**
+ * Call-to-action button styles for an AdCard
+ */
+export function getCtaStyles(theme: GravityTheme, accentColor?: string): StyleObject {
+  return {
+    display: 'inline-block',
+    marginTop: '12px',
+    padding: '6px 14px',
+    borderRadius: '6px',
+    fontWeight: 600,
+    fontSize: '0.9em',
+    backgroundColor: accentColor || themeValue(theme, 'ctaBackground'),
+    color: accentColor ? '#ffffff' : themeValue(theme, 'ctaText'),
+  };
+}
+
+/**
+ * Container marking an ad inserted into an assistant response as sponsored
+ */
+export const inlineAdContainerStyle: StyleObject = {
+  margin: '16px 0',
+  padding: '8px 0',
+  borderTop: '1px dashed rgba(128, 128, 128, 0.4)',
+  borderBottom: '1px dashed rgba(128, 128, 128, 0.4)',
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { autoTheme, autoThemeCss, createTheme, getThemeVariables, presetThemes, resolveTheme } from './theme';
+
+describe('createTheme', () => {
+  it('starts from the light preset', () => {
+    expect(createTheme({ background: '#fafafa' })).toEqual({ ...presetThemes.light, background: '#fafafa' });
+  });
+
+  it('starts from the given base preset', () => {
+    const theme = createTheme({ base: 'branded', ctaText: '#000000' });
+    expect(theme).toEqual({ ...presetThemes.branded, ctaText: '#000000' });
+    expect(theme).not.toHaveProperty('base');
+  });
+});
+
+describe('getThemeVariables', () => {
+  it('maps theme values to CSS variables', () => {
+    const variables = getThemeVariables(presetThemes.dark) as Record<string, string>;
+    expect(variables['--gravity-ad-bg']).toBe('#1a1a1a');
+    expect(variables['--gravity-ad-cta-text']).toBe('#1a1a1a');
+    expect(Object.keys(variables)).toHaveLength(Object.keys(presetThemes.dark).length);
+  });
+});
+
+describe('resolveTheme', () => {
+  it('resolves presets and custom themes', () => {
+    const custom = createTheme({ text: '#123456' });
+    expect(resolveTheme('minimal')).toBe(presetThemes.minimal);
+    expect(resolveTheme(custom)).toBe(custom);
+  });
+
+  it('resolves auto to values set by the color scheme stylesheet', () => {
+    expect(resolveTheme('auto')).toBe(autoTheme);
+    expect(autoTheme.background).toBe('var(--gravity-ad-auto-bg)');
+  });
+});
+
+describe('autoThemeCss', () => {
+  it('sets the light preset, and the dark preset for a dark color scheme', () => {
+    const [light, dark] = autoThemeCss.split('@media (prefers-color-scheme: dark)');
+    expect(light).toContain('[data-gravity-theme="auto"] { --gravity-ad-auto-bg: #ffffff;');
+    expect(dark).toContain('[data-gravity-theme="auto"] { --gravity-ad-auto-bg: #1a1a1a;');
+    expect(dark).toContain('--gravity-ad-auto-focus-ring: #a5b4fc;');
+  });
+});
+
+describe('presetThemes', () => {
+  // WCAG 2.2 relative luminance and contrast ratio of two #rrggbb colors
+  const luminance = (hex: string) => {
+    const [r, g, b] = [1, 3, 5].map((i) => {
+      const channel = parseInt(hex.slice(i, i + 2), 16) / 255;
+      return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  const contrast = (a: string, b: string) => {
+    const [lighter, darker] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+    return (lighter + 0.05) / (darker + 0.05);
+  };
+
+  it.each(['light', 'dark', 'branded'] as const)('meets WCAG AA contrast in the %s theme', (name) => {
+    const theme = presetThemes[name];
+    expect(contrast(theme.text, theme.background)).toBeGreaterThanOrEqual(4.5);
+    expect(contrast(theme.label, theme.background)).toBeGreaterThanOrEqual(4.5);
+    expect(contrast(theme.ctaText, theme.ctaBackground)).toBeGreaterThanOrEqual(4.5);
+    expect(contrast('#ffffff', theme.accent)).toBeGreaterThanOrEqual(4.5);
+    expect(contrast(theme.focusRing, theme.background)).toBeGreaterThanOrEqual(3);
+  });
+
+  it('inherits the page text color in the minimal theme', () => {
+    expect(presetThemes.minimal).toMatchObject({ text: 'inherit', label: 'inherit', focusRing: 'currentColor' });
+  });
+});
@@ -0,0 +1,163 @@
+import type { AdThemePreset, GravityTheme, StyleObject } from './types';
+
+/**
+ * Built-in themes
+ *
+ * Text, label and call-to-action colors meet the WCAG AA contrast ratio of 4.5:1 against
+ * their background, and focus rings meet 3:1.
+ */
+export const presetThemes: Record<AdThemePreset, GravityTheme> = {
+  light: {
+    background: '#ffffff',
+    text: '#1a1a1a',
+    border: '1px solid #e5e5e5',
+    shadow: '0 1px 3px rgba(0, 0, 0, 0.08)',
+    hoverShadow: '0 4px 12px rgba(0, 0, 0, 0.12)',
+    label: '#5c5c5c',
+    accent: '#4f46e5',
+    ctaBackground: '#1a1a1a',
+    ctaText: '#ffffff',
+    focusRing: '#4f46e5',
+  },
+  dark: {
+    background: '#1a1a1a',
+    text: '#f5f5f5',
+    border: '1px solid #333333',
+    shadow: '0 1px 3px rgba(0, 0, 0, 0.3)',
+    hoverShadow: '0 4px 12px rgba(0, 0, 0, 0.4)',
+    label: '#b3b3b3',
+    accent: '#4f46e5',
+    ctaBackground: '#f5f5f5',
+    ctaText: '#1a1a1a',
+    focusRing: '#a5b4fc',
+  },
+  minimal: {
+    background: 'transparent',
+    text: 'inherit',
+    border: 'none',
+    shadow: 'none',
+    hoverShadow: 'none',
+    label: 'inherit',
+    accent: '#4f46e5',
+    ctaBackground: '#1a1a1a',
+    ctaText: '#ffffff',
+    focusRing: 'currentColor',
+  },
+  branded: {
+    background: '#4f46e5',
+    text: '#ffffff',
+    border: 'none',
+    shadow: '0 2px 8px rgba(79, 70, 229, 0.3)',
+    hoverShadow: '0 4px 16px rgba(79, 70, 229, 0.4)',
+    label: '#ffffff',
+    accent: '#312e81',
+    ctaBackground: '#ffffff',
+    ctaText: '#4f46e5',
+    focusRing: '#ffffff',
+  },
+};
+
+/**
+ * The CSS custom property behind each theme value
+ */
+export const themeVariables: Record<keyof GravityTheme, string> = {
+  background: '--gravity-ad-bg',
+  text: '--gravity-ad-text',
+  border: '--gravity-ad-border',
+  shadow: '--gravity-ad-shadow',
+  hoverShadow: '--gravity-ad-hover-shadow',
+  label: '--gravity-ad-label',
+  accent: '--gravity-ad-accent',
+  ctaBackground: '--gravity-ad-cta-bg',
+  ctaText: '--gravity-ad-cta-text',
+  focusRing: '--gravity-ad-focus-ring',
+};
+
+/**
+ * The CSS custom property the "auto" theme reads each value from
+ */
+function autoVariable(key: keyof GravityTheme): string {
+  return themeVariables[key].replace('--gravity-ad-', '--gravity-ad-auto-');
+}
+
+/**
+ * The "auto" theme
+ *
+ * Each value reads a CSS variable that `autoThemeCss` sets to the light or dark preset in a
+ * `prefers-color-scheme` media query, so the first paint, server rendered or not, already
+ * follows the OS. Ads using it are marked with `data-gravity-theme="auto"`.
+ */
+export const autoTheme = Object.fromEntries(
+  (Object.keys(themeVariables) as (keyof GravityTheme)[]).map((key) => [key, `var(${autoVariable(key)})`])
+) as unknown as GravityTheme;
+
+function autoDeclarations(theme: GravityTheme): string {
+  return (Object.keys(themeVariables) as (keyof GravityTheme)[])
+    .map((key) => `${autoVariable(key)}: ${theme[key]};`)
+    .join(' ');
+}
+
+/**
+ * Stylesheet behind the "auto" theme, for elements marked with `data-gravity-theme="auto"`
+ */
+export const autoThemeCss =
+  `[data-gravity-theme="auto"] { ${autoDeclarations(presetThemes.light)} }\n` +
+  `@media (prefers-color-scheme: dark) { [data-gravity-theme="auto"] { ${autoDeclarations(presetThemes.dark)} } }`;
+
+/**
+ * Create a custom theme from a preset
+ *
+ * @param overrides - Theme values to change, plus the preset to start from (default: "light")
+ *
+ * @example
+ * ```tsx
+ * const theme = createTheme({ base: 'dark', background: '#0f172a', ctaBackground: '#38bdf8' });
+ *
+ * <AdBanner ad={ad} theme={theme} />
+ * ```
+ */
+export function createTheme(overrides: Partial<GravityTheme> & { base?: AdThemePreset } = {}): GravityTheme {
+  const { base = 'light', ...values } = overrides;
+  return { ...presetThemes[base], ...values };
+}
+
+/**
+ * Reference a theme value through its CSS variable, falling back to the theme
+ *
+ * Stylesheets can override any value by setting the variable on the ad or an ancestor,
+ * e.g. `.chat { --gravity-ad-bg: #0f172a; }`.
+ */
+export function themeValue(theme: GravityTheme, key: keyof GravityTheme): string {
+  return `var(${themeVariables[key]}, ${theme[key]})`;
+}
+
+/**
+ * A theme as CSS variable declarations, for use as the style of a container
+ *
+ * @example
+ * ```tsx
+ * <div style={getThemeVariables(createTheme({ base: 'dark' }))}>...</div>
+ * ```
+ */
+export function getThemeVariables(theme: GravityTheme): StyleObject {
+  const variables: StyleObject = {};
+  for (const key of Object.keys(themeVariables) as (keyof GravityTheme)[]) {
+    variables[themeVariables[key]] = theme[key];
+  }
+  return variables;
+}
+
+/**
+ * Resolve a theme prop to theme values
+ *
+ * @param theme - A preset name, "auto", or a custom theme
+ */
+export function resolveTheme(theme: GravityTheme | AdThemePreset | 'auto'): GravityTheme {
+  if (typeof theme === 'object') {
+    return theme;
+  }
+  if (theme === 'auto') {
+    return autoTheme;
+  }
+  return presetThemes[theme] ?? presetThemes.light;
+}
@@ -0,0 +1,127 @@
+/**
+ * Ad response from the Gravity API
+ * This mirrors the type from @gravity-ai/api for convenience
+ */
+export interface AdResponse {
+  /** The advertisement copy text */
+  adText: string;
+  /** Ad title */
+  title?: string;
+  /** Call-to-action text (e.g., 'Learn More', 'Shop Now') */
+  cta?: string;
+  /** Brand/advertiser name */
+  brandName?: string;
+  /** Landing page URL */
+  url?: string;
+  /** Favicon URL */
+  favicon?: string;
+  /** Impression tracking URL - fire this when ad is displayed */
+  impUrl?: string;
+  /** Click-through tracking URL - use this as href for ad clicks */
+  clickUrl?: string;
+  /** Placement type this ad was returned for */
+  placement?: AdPlacement;
+  /** ID of the requested placement this ad fills */
+  placement_id?: string;
+}
+
+/**
+ * Where an ad is shown relative to the AI response
+ */
+export type AdPlacement =
+  | 'above_response'
+  | 'below_response'
+  | 'inline_response'
+  | 'left_response'
+  | 'right_response';
+
+/**
+ * How an ad was activated
+ * - `primary`: left click
+ * - `middle`: middle click, usually opening a background tab
+ * - `modified`: left click with Ctrl, Cmd, Shift or Alt held
+ * - `keyboard`: Enter on the focused link
+ */
+export type AdClickType = 'primary' | 'middle' | 'modified' | 'keyboard';
+
+/**
+ * Details of a tracked ad click, passed to `onClickTracked`
+ */
+export interface AdClickEvent {
+  /** The clicked ad */
+  ad: AdResponse;
+
+  /** Placement the ad was served for, when known */
+  placementId?: string;
+
+  /** How the ad was activated */
+  type: AdClickType;
+
+  /** Modifier keys held during the click */
+  modifiers: { ctrl: boolean; meta: boolean; shift: boolean; alt: boolean };
+
+  /** Click position in pixels from the ad's top-left corner (null for keyboard activation) */
+  position: { x: number; y: number } | null;
+
+  /** When the click happened, in milliseconds since the epoch */
+  timestamp: number;
+
+  /** Milliseconds since the impression was counted (null if no impression was tracked) */
+  timeSinceImpressionMs: number | null;
+}
+
+/**
+ * Built-in theme presets
+ */
+export type AdThemePreset = 'light' | 'dark' | 'minimal' | 'branded';
+
+/**
+ * Values of a theme
+ *
+ * Each value is applied through a CSS variable (named in parentheses), so stylesheets
+ * can override it. Create one from a preset with `createTheme()`.
+ */
+export interface GravityTheme {
+  /** Ad background (--gravity-ad-bg) */
+  background: string;
+  /** Ad text color (--gravity-ad-text) */
+  text: string;
+  /** Ad border (--gravity-ad-border) */
+  border: string;
+  /** Ad shadow at rest (--gravity-ad-shadow) */
+  shadow: string;
+  /** Ad shadow on hover and keyboard focus; "none" also turns off the lift (--gravity-ad-hover-shadow) */
+  hoverShadow: string;
+  /** Sponsored label color (--gravity-ad-label) */
+  label: string;
+  /** Background of the brand initial shown without a favicon (--gravity-ad-accent) */
+  accent: string;
+  /** Call-to-action background (--gravity-ad-cta-bg) */
+  ctaBackground: string;
+  /** Call-to-action text color (--gravity-ad-cta-text) */
+  ctaText: string;
+  /** Outline shown when the ad has keyboard focus (--gravity-ad-focus-ring) */
+  focusRing: string;
+}
+
+/**
+ * Text direction of an ad
+ */
+export type TextDirection = 'ltr' | 'rtl' | 'auto';
+
+/**
+ * Visual theme for the ad banner: a preset, "auto" to follow the OS color scheme, or a custom theme
+ */
+export type AdTheme = AdThemePreset | 'auto' | GravityTheme;
+
+/**
+ * Banner size presets
+ */
+export type AdSize = 'small' | 'medium' | 'large' | 'responsive';
+
+/**
+ * Inline styles as camelCase properties, e.g. `{ backgroundColor: '#fff', padding: 12 }`
+ *
+ * Assignable to React's `style` prop; numbers are pixels except for unitless properties.
+ */
+export type StyleObject = { [property: string]: string | number | undefined };
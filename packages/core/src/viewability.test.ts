@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { observeViewability } from './viewability';
+
+/** IntersectionObserver stand-in that lets tests report intersection changes */
+class MockIntersectionObserver {
+  static instances: MockIntersectionObserver[] = [];
+  disconnected = false;
+
+  constructor(
+    private callback: (entries: Partial<IntersectionObserverEntry>[]) => void,
+    public options: IntersectionObserverInit
+  ) {
+    MockIntersectionObserver.instances.push(this);
+  }
+
+  observe() {}
+
+  disconnect() {
+    this.disconnected = true;
+  }
+
+  report(intersectionRatio: number) {
+    this.callback([{ isIntersecting: intersectionRatio > 0, intersectionRatio }]);
+  }
+}
+
+const observer = () => MockIntersectionObserver.instances[MockIntersectionObserver.instances.length - 1];
+
+const setHidden = (hidden: boolean) => {
+  vi.spyOn(document, 'visibilityState', 'get').mockReturnValue(hidden ? 'hidden' : 'visible');
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('observeViewability', () => {
+  const element = document.createElement('div');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    MockIntersectionObserver.instances = [];
+    vi.stubGlobal('IntersectionObserver', MockIntersectionObserver);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('fires after 50% of the element is visible for one second', () => {
+    const onViewable = vi.fn();
+    observeViewability(element, {}, onViewable);
+
+    observer().report(0.6);
+    vi.advanceTimersByTime(999);
+    expect(onViewable).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onViewable).toHaveBeenCalledTimes(1);
+    expect(observer().disconnected).toBe(true);
+  });
+
+  it('does not fire below the threshold', () => {
+    const onViewable = vi.fn();
+    observeViewability(element, {}, onViewable);
+
+    observer().report(0.4);
+    vi.advanceTimersByTime(5000);
+
+    expect(onViewable).not.toHaveBeenCalled();
+  });
+
+  it('restarts the dwell time when the element leaves the viewport', () => {
+    const onViewable = vi.fn();
+    observeViewability(element, {}, onViewable);
+
+    observer().report(1);
+    vi.advanceTimersByTime(800);
+    observer().report(0);
+    observer().report(1);
+    vi.advanceTimersByTime(800);
+    expect(onViewable).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(200);
+    expect(onViewable).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses while the tab is hidden', () => {
+    const onViewable = vi.fn();
+    observeViewability(element, {}, onViewable);
+
+    observer().report(1);
+    vi.advanceTimersByTime(500);
+    setHidden(true);
+    vi.advanceTimersByTime(5000);
+    expect(onViewable).not.toHaveBeenCalled();
+
+    setHidden(false);
+    vi.advanceTimersByTime(1000);
+    expect(onViewable).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses custom thresholds', () => {
+    const onViewable = vi.fn();
+    observeViewability(element, { threshold: 1, minDurationMs: 2000 }, onViewable);
+
+    expect(observer().options.threshold).toBe(1);
+    observer().report(0.9);
+    vi.advanceTimersByTime(3000);
+    expect(onViewable).not.toHaveBeenCalled();
+
+    observer().report(1);
+    vi.advanceTimersByTime(2000);
+    expect(onViewable).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops observing when cancelled', () => {
+    const onViewable = vi.fn();
+    const stop = observeViewability(element, {}, onViewable);
+
+    observer().report(1);
+    stop();
+    vi.advanceTimersByTime(2000);
+
+    expect(onViewable).not.toHaveBeenCalled();
+    expect(observer().disconnected).toBe(true);
+  });
+
+  it('fires right away without IntersectionObserver', () => {
+    vi.stubGlobal('IntersectionObserver', undefined);
+    const onViewable = vi.fn();
+
+    observeViewability(element, {}, onViewable);
+
+    expect(onViewable).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * When an ad counts as viewable
+ */
+export interface ViewabilityOptions {
+  /** Fraction of the ad that must be on screen, from 0 to 1 (default: 0.5) */
+  threshold?: number;
+
+  /** How long the ad must stay on screen without interruption, in milliseconds (default: 1000) */
+  minDurationMs?: number;
+}
+
+/**
+ * Call `onViewable` once an element has been visible for long enough
+ *
+ * Follows the IAB display standard by default: at least 50% of the element in the
+ * viewport for one continuous second. The timer restarts whenever the element scrolls
+ * out of view or the tab is hidden. Without IntersectionObserver, viewability cannot be
+ * measured and `onViewable` is called right away.
+ *
+ * @returns A function that stops observing
+ */
+export function observeViewability(
+  element: Element,
+  options: ViewabilityOptions,
+  onViewable: () => void
+): () => void {
+  const threshold = options.threshold ?? 0.5;
+  const minDurationMs = options.minDurationMs ?? 1000;
+
+  if (typeof IntersectionObserver === 'undefined') {
+    onViewable();
+    return () => {};
+  }
+
+  let inView = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const stopTimer = () => {
+    clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const startTimer = () => {
+    if (timer !== undefined || !inView || document.visibilityState === 'hidden') {
+      return;
+    }
+    timer = setTimeout(() => {
+      stop();
+      onViewable();
+    }, minDurationMs);
+  };
+
+  const observer = new IntersectionObserver(
+    (entries) => {
+      const entry = entries[entries.length - 1];
+      inView = entry.isIntersecting && entry.intersectionRatio >= threshold;
+      if (inView) {
+        startTimer();
+      } else {
+        stopTimer();
+      }
+    },
+    { threshold }
+  );
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      stopTimer();
+    } else {
+      startTimer();
+    }
+  };
+
+  const stop = () => {
+    stopTimer();
+    observer.disconnect();
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+
+  observer.observe(element);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  return stop;
+}
@@ -1,24 +1,18 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { hydrateRoot } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
 import { AdBanner } from './AdBanner';
+import { GravityThemeProvider } from './GravityThemeProvider';
+import { GravityProvider } from './GravityProvider';
+import { autoThemeCss, createTheme } from '@gravity-ai/core';
 import type { AdResponse } from '../types';
+import { fetchMock, mockImpressionBeacons } from '../test-utils';
 
-// Mock Image constructor for impression tracking
-const mockImageInstances: { src?: string }[] = [];
-const OriginalImage = globalThis.Image;
-
-beforeEach(() => {
-  mockImageInstances.length = 0;
-  globalThis.Image = class MockImage {
-    src?: string;
-    constructor() {
-      mockImageInstances.push(this);
-    }
-  } as unknown as typeof Image;
-});
+mockImpressionBeacons();
 
 afterEach(() => {
-  globalThis.Image = OriginalImage;
+  vi.restoreAllMocks();
 });
 
 describe('AdBanner', () => {
@@ -80,25 +74,67 @@ describe('AdBanner', () => {
 
   it('tracks impression on mount', () => {
     render(<AdBanner ad={mockAd} />);
-    expect(mockImageInstances.length).toBe(1);
-    expect(mockImageInstances[0].src).toBe('https://tracking.example.com/imp');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://tracking.example.com/imp',
+      expect.objectContaining({ keepalive: true })
+    );
+  });
+
+  it('marks the impression on the GravityProvider client', () => {
+    const client = { getAdResult: vi.fn(), markImpression: vi.fn(async () => {}) };
+    render(
+      <GravityProvider client={client}>
+        <AdBanner ad={mockAd} />
+      </GravityProvider>
+    );
+    expect(client.markImpression).toHaveBeenCalledWith(mockAd);
   });
 
   it('does not track impression when disabled', () => {
     render(<AdBanner ad={mockAd} disableImpressionTracking />);
-    expect(mockImageInstances.length).toBe(0);
+    expect(fetchMock).not.toHaveBeenCalled();
   });
 
   it('does not track impression when no impUrl', () => {
     const adWithoutImp = { ...mockAd, impUrl: undefined };
     render(<AdBanner ad={adWithoutImp} />);
-    expect(mockImageInstances.length).toBe(0);
+    expect(fetchMock).not.toHaveBeenCalled();
   });
 
-  it('calls onImpression callback when impression fires', () => {
+  it('calls onImpression callback when impression fires', async () => {
     const onImpression = vi.fn();
     render(<AdBanner ad={mockAd} onImpression={onImpression} />);
-    expect(onImpression).toHaveBeenCalledTimes(1);
+    await waitFor(() => expect(onImpression).toHaveBeenCalledTimes(1));
+    expect(onImpression).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://tracking.example.com/imp', success: true })
+    );
+  });
+
+  it('tracks impression only once viewable when viewability is enabled', () => {
+    vi.useFakeTimers();
+    let report: (entries: Partial<IntersectionObserverEntry>[]) => void = () => {};
+    vi.stubGlobal(
+      'IntersectionObserver',
+      class {
+        constructor(callback: typeof report) {
+          report = callback;
+        }
+        observe() {}
+        disconnect() {}
+      }
+    );
+
+    render(<AdBanner ad={mockAd} viewability />);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    act(() => {
+      report([{ isIntersecting: true, intersectionRatio: 1 }]);
+      vi.advanceTimersByTime(1000);
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.useRealTimers();
   });
 
   it('calls onClick when banner is clicked', () => {
@@ -121,6 +157,78 @@ describe('AdBanner', () => {
     expect(onClickTracked).toHaveBeenCalledTimes(1);
   });
 
+  describe('click tracking', () => {
+    it('reports a primary click with position and time since impression', () => {
+      const onClickTracked = vi.fn();
+      vi.spyOn(Date, 'now').mockReturnValue(1000);
+      render(<AdBanner ad={mockAd} onClickTracked={onClickTracked} />);
+      const link = screen.getByRole('link');
+      vi.spyOn(link, 'getBoundingClientRect').mockReturnValue({ left: 10, top: 20 } as DOMRect);
+
+      vi.spyOn(Date, 'now').mockReturnValue(3500);
+      fireEvent.click(link, { detail: 1, clientX: 40, clientY: 30 });
+
+      expect(onClickTracked).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ad: mockAd,
+          type: 'primary',
+          position: { x: 30, y: 10 },
+          timestamp: 3500,
+          timeSinceImpressionMs: 2500,
+        })
+      );
+    });
+
+    it('distinguishes modified, middle and keyboard clicks', () => {
+      const onClickTracked = vi.fn();
+      const now = vi.spyOn(Date, 'now');
+      render(<AdBanner ad={mockAd} onClickTracked={onClickTracked} doubleClickMs={0} />);
+      const link = screen.getByRole('link');
+
+      now.mockReturnValue(1000);
+      fireEvent.click(link, { detail: 1, ctrlKey: true });
+      now.mockReturnValue(2000);
+      fireEvent(link, new MouseEvent('auxclick', { bubbles: true, button: 1, detail: 1 }));
+      now.mockReturnValue(3000);
+      fireEvent.click(link, { detail: 0 });
+
+      const events = onClickTracked.mock.calls.map(([event]) => event);
+      expect(events.map((event) => event.type)).toEqual(['modified', 'middle', 'keyboard']);
+      expect(events[0].modifiers).toEqual({ ctrl: true, meta: false, shift: false, alt: false });
+      expect(events[2].position).toBeNull();
+    });
+
+    it('ignores right clicks', () => {
+      const onClickTracked = vi.fn();
+      render(<AdBanner ad={mockAd} onClickTracked={onClickTracked} />);
+
+      fireEvent(screen.getByRole('link'), new MouseEvent('auxclick', { bubbles: true, button: 2 }));
+
+      expect(onClickTracked).not.toHaveBeenCalled();
+    });
+
+    it('de-duplicates rapid double clicks', () => {
+      const onClickTracked = vi.fn();
+      render(<AdBanner ad={mockAd} onClickTracked={onClickTracked} />);
+      const link = screen.getByRole('link');
+
+      fireEvent.click(link, { detail: 1 });
+      const secondAllowed = fireEvent.click(link, { detail: 2 });
+
+      expect(onClickTracked).toHaveBeenCalledTimes(1);
+      expect(secondAllowed).toBe(false);
+    });
+
+    it('reports clicks on ads without a clickUrl', () => {
+      const onClickTracked = vi.fn();
+      render(<AdBanner ad={{ ...mockAd, clickUrl: undefined }} onClickTracked={onClickTracked} />);
+
+      fireEvent.click(screen.getByText(mockAd.adText), { detail: 1 });
+
+      expect(onClickTracked).toHaveBeenCalledWith(expect.objectContaining({ type: 'primary' }));
+    });
+  });
+
   it('applies custom className', () => {
     render(<AdBanner ad={mockAd} className="custom-class" />);
     const link = screen.getByRole('link');
@@ -137,26 +245,160 @@ describe('AdBanner', () => {
     it('applies light theme styles', () => {
       render(<AdBanner ad={mockAd} theme="light" />);
       const link = screen.getByRole('link');
-      expect(link).toHaveStyle({ backgroundColor: '#ffffff' });
+      expect(link).toHaveStyle({ backgroundColor: 'var(--gravity-ad-bg, #ffffff)' });
     });
 
     it('applies dark theme styles', () => {
       render(<AdBanner ad={mockAd} theme="dark" />);
       const link = screen.getByRole('link');
-      expect(link).toHaveStyle({ backgroundColor: '#1a1a1a' });
+      expect(link).toHaveStyle({ backgroundColor: 'var(--gravity-ad-bg, #1a1a1a)' });
     });
 
     it('applies branded theme styles', () => {
       render(<AdBanner ad={mockAd} theme="branded" />);
       const link = screen.getByRole('link');
-      expect(link).toHaveStyle({ backgroundColor: '#6366f1' });
+      expect(link).toHaveStyle({ backgroundColor: 'var(--gravity-ad-bg, #4f46e5)' });
     });
 
     it('applies minimal theme styles', () => {
       render(<AdBanner ad={mockAd} theme="minimal" />);
       const link = screen.getByRole('link');
       // Minimal theme has no border/shadow
-      expect(link).toHaveStyle({ border: 'none', boxShadow: 'none' });
+      expect(link.style.border).toBe('var(--gravity-ad-border, none)');
+      expect(link.style.boxShadow).toBe('var(--gravity-ad-shadow, none)');
+    });
+
+    it('applies a custom theme', () => {
+      render(<AdBanner ad={mockAd} theme={createTheme({ base: 'dark', background: '#0f172a' })} />);
+      const link = screen.getByRole('link');
+      expect(link).toHaveStyle({ backgroundColor: 'var(--gravity-ad-bg, #0f172a)', color: 'var(--gravity-ad-text, #f5f5f5)' });
+    });
+
+    it('uses the GravityThemeProvider theme by default', () => {
+      render(
+        <GravityThemeProvider theme="dark">
+          <AdBanner ad={mockAd} />
+        </GravityThemeProvider>
+      );
+      expect(screen.getByRole('link')).toHaveStyle({ backgroundColor: 'var(--gravity-ad-bg, #1a1a1a)' });
+    });
+
+    it('prefers its own theme over the provider', () => {
+      render(
+        <GravityThemeProvider theme="dark">
+          <AdBanner ad={mockAd} theme="branded" />
+        </GravityThemeProvider>
+      );
+      expect(screen.getByRole('link')).toHaveStyle({ backgroundColor: 'var(--gravity-ad-bg, #4f46e5)' });
+    });
+
+    it('follows the OS color scheme with the auto theme from the first paint', () => {
+      const html = renderToString(<AdBanner ad={mockAd} theme="auto" disableImpressionTracking />);
+      const container = document.createElement('div');
+      container.innerHTML = html;
+      const link = container.querySelector('a')!;
+
+      expect(link).toHaveAttribute('data-gravity-theme', 'auto');
+      expect(link.style.backgroundColor).toBe('var(--gravity-ad-bg, var(--gravity-ad-auto-bg))');
+      expect(link.querySelector('style')!.textContent).toBe(autoThemeCss);
+    });
+
+    it('applies media queries after hydrating server markup without mismatches', async () => {
+      const container = document.createElement('div');
+      container.innerHTML = renderToString(<AdBanner ad={mockAd} theme="auto" disableImpressionTracking />);
+      document.body.appendChild(container);
+      const reduced = { matches: true, addEventListener: vi.fn(), removeEventListener: vi.fn() };
+      vi.stubGlobal('matchMedia', vi.fn(() => reduced));
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const root = await act(async () =>
+        hydrateRoot(container, <AdBanner ad={mockAd} theme="auto" disableImpressionTracking />)
+      );
+
+      expect(consoleError).not.toHaveBeenCalled();
+      expect(container.querySelector('a')).toHaveStyle({ transition: 'none' });
+      consoleError.mockRestore();
+      act(() => root.unmount());
+      container.remove();
+    });
+  });
+
+  describe('accessibility', () => {
+    it.each(['light', 'dark', 'minimal', 'branded'] as const)('has no axe violations with the %s theme', async (theme) => {
+      const { container } = render(<AdBanner ad={mockAd} theme={theme} />);
+      await expect(container).toHaveNoAxeViolations();
+    });
+
+    it('discloses the ad in the link name', () => {
+      render(<AdBanner ad={mockAd} />);
+      expect(screen.getByRole('link', { name: 'Sponsored: Check out our amazing product!' })).toBeInTheDocument();
+    });
+
+    it('discloses the ad when the label is hidden', () => {
+      render(<AdBanner ad={mockAd} showLabel={false} labelText="Ad" />);
+      expect(screen.getByRole('link', { name: 'Ad: Check out our amazing product!' })).toBeInTheDocument();
+    });
+
+    it('renders plain content instead of a link without a clickUrl', async () => {
+      const { container } = render(<AdBanner ad={{ adText: 'No link' }} />);
+      expect(screen.queryByRole('link')).not.toBeInTheDocument();
+      expect(container.querySelector('[data-gravity-ad]')!.tagName).toBe('DIV');
+      await expect(container).toHaveNoAxeViolations();
+    });
+
+    it('shows the hover effect and a focus ring on keyboard focus', () => {
+      render(<AdBanner ad={mockAd} />);
+      const link = screen.getByRole('link');
+      act(() => link.focus());
+      expect(link.style.outline).toBe('2px solid var(--gravity-ad-focus-ring, #4f46e5)');
+      expect(link).toHaveStyle({ transform: 'translateY(-1px)' });
+
+      act(() => link.blur());
+      expect(link.style.outline).toBe('');
+    });
+
+    it('does not move when the user prefers reduced motion', () => {
+      const query = (media: string) => ({
+        matches: media === '(prefers-reduced-motion: reduce)',
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+      });
+      vi.stubGlobal('matchMedia', vi.fn(query));
+      render(<AdBanner ad={mockAd} />);
+      const link = screen.getByRole('link');
+      fireEvent.mouseEnter(link);
+      expect(link).toHaveStyle({ transition: 'none' });
+      expect(link.style.transform).toBe('');
+      expect(link.style.boxShadow).toBe('var(--gravity-ad-hover-shadow, 0 4px 12px rgba(0, 0, 0, 0.12))');
+    });
+  });
+
+  describe('localization', () => {
+    it('translates the label and follows the text direction of the locale', () => {
+      render(<AdBanner ad={mockAd} locale="he-IL" />);
+      expect(screen.getByText('ממומן')).toBeInTheDocument();
+      expect(screen.getByRole('link')).toHaveAttribute('dir', 'rtl');
+    });
+
+    it('uses the GravityProvider locale and labels', () => {
+      const client = { getAdResult: vi.fn() };
+      render(
+        <GravityProvider client={client} locale="de-DE" labels={{ de: 'Anzeige' }}>
+          <AdBanner ad={mockAd} />
+        </GravityProvider>
+      );
+      expect(screen.getByRole('link', { name: 'Anzeige: Check out our amazing product!' })).toHaveAttribute('dir', 'ltr');
+    });
+
+    it('prefers explicit labelText and dir', () => {
+      render(<AdBanner ad={mockAd} locale="ar" labelText="Ad" dir="ltr" />);
+      expect(screen.getByText('Ad')).toBeInTheDocument();
+      expect(screen.getByRole('link')).toHaveAttribute('dir', 'ltr');
+    });
+
+    it('leaves the direction to the page without a locale', () => {
+      render(<AdBanner ad={mockAd} />);
+      expect(screen.getByRole('link')).not.toHaveAttribute('dir');
     });
   });
 
@@ -179,4 +421,32 @@ describe('AdBanner', () => {
       expect(link).toHaveStyle({ borderRadius: '20px' });
     });
   });
+
+  describe('placements', () => {
+    const ads: AdResponse[] = [
+      { adText: 'Header ad', placement: 'above_response', placement_id: 'header' },
+      { adText: 'Footer ad', placement: 'below_response', placement_id: 'footer' },
+    ];
+
+    it('renders the ad for the given placementId', () => {
+      render(<AdBanner ad={ads} placementId="footer" />);
+      expect(screen.getByText('Footer ad')).toBeInTheDocument();
+      expect(screen.queryByText('Header ad')).not.toBeInTheDocument();
+    });
+
+    it('renders the first ad when no placementId is given', () => {
+      render(<AdBanner ad={ads} />);
+      expect(screen.getByText('Header ad')).toBeInTheDocument();
+    });
+
+    it('renders fallback when no ad matches the placementId', () => {
+      render(<AdBanner ad={ads} placementId="sidebar" fallback={<div>No ad available</div>} />);
+      expect(screen.getByText('No ad available')).toBeInTheDocument();
+    });
+
+    it('does not render a single ad served for another placement', () => {
+      const { container } = render(<AdBanner ad={ads[0]} placementId="footer" />);
+      expect(container.firstChild).toBeNull();
+    });
+  });
 });
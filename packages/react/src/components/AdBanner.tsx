@@ -1,11 +1,18 @@
-import React, { useState } from 'react';
+import React from 'react';
 import type { AdBannerProps } from '../types';
 import { useAdTracking } from '../hooks/useAdTracking';
-import { getAdBannerStyles, baseLabelStyle } from '../styles';
+import { useGravityTheme } from '../hooks/useGravityTheme';
+import { useAdInteraction } from '../hooks/useAdInteraction';
+import { useAdLocale } from '../hooks/useAdLocale';
+import { selectAd, buildAdMarkup } from '@gravity-ai/core';
+import { renderAdMarkup } from '../markup';
 
 /**
  * AdBanner - A customizable component for rendering Gravity AI advertisements
  *
+ * Screen readers hear the label text before the ad, even with `showLabel={false}`.
+ * Without a `clickUrl` the ad renders as plain content rather than a link.
+ *
  * @example
  * ```tsx
  * import { AdBanner } from '@gravity-ai/react';
@@ -29,34 +36,44 @@ import { getAdBannerStyles, baseLabelStyle } from '../styles';
  * ```
  */
 export function AdBanner({
-  ad,
-  theme = 'light',
+  ad: ads,
+  placementId,
+  theme: themeProp,
   size = 'medium',
   className,
   style,
   textStyle,
   textClassName,
   showLabel = true,
-  labelText = 'Sponsored',
+  labelText: labelTextProp,
+  locale,
+  dir: dirProp,
   labelStyle,
   onClick,
   onImpression,
   onClickTracked,
+  doubleClickMs,
   fallback = null,
   disableImpressionTracking = false,
+  viewability,
   openInNewTab = true,
   borderRadius,
   backgroundColor,
   textColor,
   accentColor,
 }: AdBannerProps) {
-  const [isHovered, setIsHovered] = useState(false);
+  const ad = selectAd(ads, placementId);
+  const theme = useGravityTheme(themeProp);
+  const interaction = useAdInteraction();
+  const { labelText, dir } = useAdLocale({ locale, dir: dirProp, labelText: labelTextProp });
 
-  const { handleClick } = useAdTracking({
+  const { handleClick, ref } = useAdTracking({
     ad,
     disableImpressionTracking,
+    viewability,
     onImpression,
     onClickTracked,
+    doubleClickMs,
   });
 
   // Return fallback if no ad
@@ -64,69 +81,44 @@ export function AdBanner({
     return <>{fallback}</>;
   }
 
-  const containerStyles = getAdBannerStyles(theme, size, {
-    backgroundColor,
-    textColor,
-    borderRadius,
-    style,
-  });
-
-  // Add hover effect
-  if (isHovered && theme !== 'minimal') {
-    containerStyles.transform = 'translateY(-1px)';
-    containerStyles.boxShadow =
-      theme === 'dark'
-        ? '0 4px 12px rgba(0, 0, 0, 0.4)'
-        : theme === 'branded'
-        ? '0 4px 16px rgba(99, 102, 241, 0.4)'
-        : '0 4px 12px rgba(0, 0, 0, 0.12)';
-  }
-
-  const labelStyles: React.CSSProperties = {
-    ...baseLabelStyle,
-    color: accentColor || (theme === 'branded' ? 'rgba(255,255,255,0.8)' : undefined),
-    ...labelStyle,
-  };
-
-  const textStyles: React.CSSProperties = {
-    margin: 0,
-    ...textStyle,
-  };
-
   const handleClickInternal = (e: React.MouseEvent) => {
-    handleClick();
+    handleClick(e);
     onClick?.();
+  };
 
-    // If no clickUrl, prevent default
-    if (!ad.clickUrl) {
-      e.preventDefault();
+  // Track middle clicks, which open the ad in a new tab; ignore right clicks
+  const handleAuxClick = (e: React.MouseEvent) => {
+    if (e.button === 1) {
+      handleClickInternal(e);
     }
   };
 
-  const linkProps = ad.clickUrl
-    ? {
-        href: ad.clickUrl,
-        target: openInNewTab ? '_blank' : undefined,
-        rel: openInNewTab ? 'noopener noreferrer sponsored' : 'sponsored',
-      }
-    : {};
+  const markup = buildAdMarkup(ad, theme, {
+    size,
+    labelText,
+    showLabel,
+    dir,
+    openInNewTab,
+    borderRadius,
+    backgroundColor,
+    textColor,
+    accentColor,
+    interaction,
+    style,
+    labelStyle,
+    textStyle,
+  });
 
-  return (
-    <a
-      {...linkProps}
-      className={className}
-      style={containerStyles}
-      onClick={handleClickInternal}
-      onMouseEnter={() => setIsHovered(true)}
-      onMouseLeave={() => setIsHovered(false)}
-      data-gravity-ad
-    >
-      {showLabel && <span style={labelStyles}>{labelText}</span>}
-      <p className={textClassName} style={textStyles}>
-        {ad.adText}
-      </p>
-    </a>
-  );
+  return renderAdMarkup(markup, {
+    container: {
+      className,
+      onClick: handleClickInternal,
+      onAuxClick: handleAuxClick,
+      ...(ad.clickUrl && interaction.handlers),
+      ref,
+    },
+    text: { className: textClassName },
+  });
 }
 
 AdBanner.displayName = 'GravityAdBanner';
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { AdCard } from './AdCard';
+import type { AdResponse } from '../types';
+import { fetchMock, mockImpressionBeacons } from '../test-utils';
+
+mockImpressionBeacons();
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('AdCard', () => {
+  const mockAd: AdResponse = {
+    adText: 'Ship faster with managed Postgres.',
+    title: 'Postgres in 30 seconds',
+    cta: 'Start free',
+    brandName: 'Acme DB',
+    favicon: 'https://acme.example.com/favicon.ico',
+    impUrl: 'https://tracking.example.com/card-imp',
+    clickUrl: 'https://example.com/card-landing',
+  };
+
+  it('renders brand, title, body and call to action', () => {
+    render(<AdCard ad={mockAd} />);
+    expect(screen.getByText('Acme DB')).toBeInTheDocument();
+    expect(screen.getByText('Postgres in 30 seconds')).toBeInTheDocument();
+    expect(screen.getByText('Ship faster with managed Postgres.')).toBeInTheDocument();
+    expect(screen.getByText('Start free')).toBeInTheDocument();
+    expect(screen.getByText('Sponsored')).toBeInTheDocument();
+  });
+
+  it('renders the favicon image', () => {
+    const { container } = render(<AdCard ad={mockAd} />);
+    const img = container.querySelector('img');
+    expect(img).toHaveAttribute('src', 'https://acme.example.com/favicon.ico');
+    expect(img).toHaveAttribute('alt', '');
+  });
+
+  it('falls back to the brand initial when the favicon fails to load', () => {
+    const { container } = render(<AdCard ad={mockAd} />);
+    fireEvent.error(container.querySelector('img')!);
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(screen.getByText('A')).toBeInTheDocument();
+  });
+
+  it('shows the brand initial when there is no favicon', () => {
+    const { container } = render(<AdCard ad={{ ...mockAd, favicon: undefined }} />);
+    expect(container.querySelector('img')).toBeNull();
+    expect(screen.getByText('A')).toBeInTheDocument();
+  });
+
+  it('hides the favicon when showFavicon is false', () => {
+    const { container } = render(<AdCard ad={mockAd} showFavicon={false} />);
+    expect(container.querySelector('[data-gravity-ad-favicon]')).toBeNull();
+  });
+
+  it('renders only the ad text when other fields are missing', () => {
+    const { container } = render(<AdCard ad={{ adText: 'Just text' }} showLabel={false} />);
+    const card = container.querySelector('[data-gravity-ad]')!;
+    expect(card.textContent).toBe('Sponsored: Just text');
+    expect(container.querySelector('[data-gravity-ad-favicon]')).toBeNull();
+  });
+
+  it('renders fallback when ad is null', () => {
+    render(<AdCard ad={null} fallback={<div>No ad available</div>} />);
+    expect(screen.getByText('No ad available')).toBeInTheDocument();
+  });
+
+  it('links to clickUrl', () => {
+    render(<AdCard ad={mockAd} />);
+    const link = screen.getByRole('link');
+    expect(link).toHaveAttribute('href', 'https://example.com/card-landing');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer sponsored');
+  });
+
+  it('fires impression tracking on render', async () => {
+    render(<AdCard ad={mockAd} />);
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith('https://tracking.example.com/card-imp', expect.anything());
+    });
+  });
+
+  it('reports clicks', () => {
+    const onClick = vi.fn();
+    const onClickTracked = vi.fn();
+    render(<AdCard ad={mockAd} onClick={onClick} onClickTracked={onClickTracked} />);
+
+    fireEvent.click(screen.getByRole('link'), { detail: 1 });
+
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(onClickTracked).toHaveBeenCalledWith(expect.objectContaining({ ad: mockAd, type: 'primary' }));
+  });
+
+  it('uses accentColor for the call to action', () => {
+    render(<AdCard ad={mockAd} accentColor="#10b981" />);
+    expect(screen.getByText('Start free')).toHaveStyle({ backgroundColor: '#10b981' });
+  });
+
+  it('has no axe violations', async () => {
+    const { container } = render(<AdCard ad={mockAd} />);
+    await expect(container).toHaveNoAxeViolations();
+  });
+
+  it('discloses the ad before the brand in the link name', () => {
+    render(<AdCard ad={mockAd} />);
+    expect(screen.getByRole('link', { name: /^Sponsored: Acme DB/ })).toBeInTheDocument();
+  });
+});
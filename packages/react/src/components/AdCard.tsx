@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import type { AdCardProps } from '../types';
+import { useAdTracking } from '../hooks/useAdTracking';
+import { useGravityTheme } from '../hooks/useGravityTheme';
+import { useAdInteraction } from '../hooks/useAdInteraction';
+import { useAdLocale } from '../hooks/useAdLocale';
+import { selectAd, buildAdMarkup } from '@gravity-ai/core';
+import { renderAdMarkup } from '../markup';
+
+/**
+ * AdCard - A richer ad layout with the advertiser's favicon, brand, title and call to action
+ *
+ * Fields missing from the ad are left out, so an ad with only `adText` renders like a
+ * banner. A favicon that is missing or fails to load is replaced by the brand's initial.
+ *
+ * @example
+ * ```tsx
+ * import { AdCard } from '@gravity-ai/react';
+ *
+ * <AdCard ad={ad} theme="dark" accentColor="#10b981" />
+ * ```
+ */
+export function AdCard({
+  ad: ads,
+  placementId,
+  theme: themeProp,
+  size = 'medium',
+  className,
+  style,
+  textStyle,
+  textClassName,
+  showLabel = true,
+  labelText: labelTextProp,
+  locale,
+  dir: dirProp,
+  labelStyle,
+  onClick,
+  onImpression,
+  onClickTracked,
+  doubleClickMs,
+  fallback = null,
+  disableImpressionTracking = false,
+  viewability,
+  openInNewTab = true,
+  borderRadius,
+  backgroundColor,
+  textColor,
+  accentColor,
+  showFavicon = true,
+}: AdCardProps) {
+  const ad = selectAd(ads, placementId);
+  const theme = useGravityTheme(themeProp);
+  const interaction = useAdInteraction();
+  const { labelText, dir } = useAdLocale({ locale, dir: dirProp, labelText: labelTextProp });
+
+  // The favicon URL that failed to load, so a new ad gets a fresh attempt
+  const [failedFavicon, setFailedFavicon] = useState<string | null>(null);
+
+  const { handleClick, ref } = useAdTracking({
+    ad,
+    disableImpressionTracking,
+    viewability,
+    onImpression,
+    onClickTracked,
+    doubleClickMs,
+  });
+
+  // Return fallback if no ad
+  if (!ad) {
+    return <>{fallback}</>;
+  }
+
+  const handleClickInternal = (e: React.MouseEvent) => {
+    handleClick(e);
+    onClick?.();
+  };
+
+  // Track middle clicks, which open the ad in a new tab; ignore right clicks
+  const handleAuxClick = (e: React.MouseEvent) => {
+    if (e.button === 1) {
+      handleClickInternal(e);
+    }
+  };
+
+  const markup = buildAdMarkup(ad, theme, {
+    variant: 'card',
+    size,
+    labelText,
+    showLabel,
+    dir,
+    openInNewTab,
+    borderRadius,
+    backgroundColor,
+    textColor,
+    accentColor,
+    showFavicon,
+    faviconFailed: failedFavicon === ad.favicon,
+    interaction,
+    style,
+    labelStyle,
+    textStyle,
+  });
+
+  return renderAdMarkup(markup, {
+    container: {
+      className,
+      onClick: handleClickInternal,
+      onAuxClick: handleAuxClick,
+      ...(ad.clickUrl && interaction.handlers),
+      ref,
+    },
+    text: { className: textClassName },
+    favicon: { onError: () => setFailedFavicon(ad.favicon ?? null) },
+  });
+}
+
+AdCard.displayName = 'GravityAdCard';
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest';
+import { act, render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { hydrateRoot } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { AdIsland } from './AdIsland';
+import { AdMarkup } from './AdMarkup';
+import { createAd, fetchMock, impressionsFor, mockImpressionBeacons } from '../test-utils';
+
+mockImpressionBeacons();
+
+describe('AdIsland', () => {
+  it('tracks the impression of server-rendered markup once after hydration', async () => {
+    const ad = createAd();
+    const tree = (
+      <AdIsland>
+        <AdMarkup ad={ad} />
+      </AdIsland>
+    );
+
+    const container = document.createElement('div');
+    container.innerHTML = renderToString(tree);
+    document.body.appendChild(container);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const onRecoverableError = vi.fn();
+    const root = await act(async () => hydrateRoot(container, tree, { onRecoverableError }));
+
+    await waitFor(() => expect(impressionsFor(ad)).toBe(1));
+    expect(onRecoverableError).not.toHaveBeenCalled();
+
+    act(() => root.render(tree));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(impressionsFor(ad)).toBe(1);
+
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it('does not track again when remounted', async () => {
+    const ad = createAd();
+    const tree = (
+      <AdIsland>
+        <AdMarkup ad={ad} />
+      </AdIsland>
+    );
+
+    const first = render(tree);
+    await waitFor(() => expect(impressionsFor(ad)).toBe(1));
+    first.unmount();
+
+    render(tree);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(impressionsFor(ad)).toBe(1);
+  });
+
+  it('skips the impression when disabled', async () => {
+    const ad = createAd();
+    render(
+      <AdIsland disableImpressionTracking>
+        <AdMarkup ad={ad} />
+      </AdIsland>
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(impressionsFor(ad)).toBe(0);
+  });
+
+  it('reports clicks and ignores double clicks', () => {
+    const ad = createAd();
+    const onClickTracked = vi.fn();
+    render(
+      <AdIsland onClickTracked={onClickTracked}>
+        <AdMarkup ad={ad} />
+      </AdIsland>
+    );
+
+    const link = screen.getByRole('link');
+    fireEvent.click(link, { detail: 1 });
+    fireEvent.click(link, { detail: 2 });
+
+    expect(onClickTracked).toHaveBeenCalledTimes(1);
+    expect(onClickTracked).toHaveBeenCalledWith(expect.objectContaining({ ad, type: 'primary' }));
+  });
+
+  it('keeps ignoring double clicks across parent re-renders', () => {
+    const ad = createAd();
+    const onClickTracked = vi.fn();
+    const { rerender } = render(
+      <AdIsland onClickTracked={onClickTracked}>
+        <AdMarkup ad={ad} />
+      </AdIsland>
+    );
+
+    fireEvent.click(screen.getByRole('link'), { detail: 1 });
+    rerender(
+      <AdIsland onClickTracked={onClickTracked}>
+        <AdMarkup ad={ad} />
+      </AdIsland>
+    );
+    fireEvent.click(screen.getByRole('link'), { detail: 2 });
+
+    expect(onClickTracked).toHaveBeenCalledTimes(1);
+  });
+
+  it('tracks a new ad rendered into it', async () => {
+    const first = createAd();
+    const second = createAd();
+    const { rerender } = render(
+      <AdIsland>
+        <AdMarkup ad={first} />
+      </AdIsland>
+    );
+    await waitFor(() => expect(impressionsFor(first)).toBe(1));
+
+    rerender(
+      <AdIsland>
+        <AdMarkup ad={second} />
+      </AdIsland>
+    );
+
+    await waitFor(() => expect(impressionsFor(second)).toBe(1));
+  });
+
+  it('reports middle clicks but not right clicks', () => {
+    const onClickTracked = vi.fn();
+    render(
+      <AdIsland onClickTracked={onClickTracked}>
+        <AdMarkup ad={createAd()} />
+      </AdIsland>
+    );
+
+    const link = screen.getByRole('link');
+    fireEvent(link, new MouseEvent('auxclick', { bubbles: true, button: 2 }));
+    expect(onClickTracked).not.toHaveBeenCalled();
+
+    fireEvent(link, new MouseEvent('auxclick', { bubbles: true, button: 1 }));
+    expect(onClickTracked).toHaveBeenCalledWith(expect.objectContaining({ type: 'middle' }));
+  });
+
+  it('hides a favicon that fails to load', () => {
+    const { container } = render(
+      <AdIsland>
+        <AdMarkup ad={createAd({ favicon: 'https://broken.example.com/favicon.ico', brandName: 'Acme' })} variant="card" />
+      </AdIsland>
+    );
+
+    const img = container.querySelector('img')!;
+    expect(img.style.display).toBe('');
+    fireEvent.error(img);
+    expect(img.style.display).toBe('none');
+  });
+
+  it('tracks every ad inside it', async () => {
+    const top = createAd({ placement_id: 'top' });
+    const bottom = createAd({ placement_id: 'bottom' });
+    render(
+      <AdIsland>
+        <AdMarkup ad={[top, bottom]} placementId="top" />
+        <p>Response</p>
+        <AdMarkup ad={[top, bottom]} placementId="bottom" />
+      </AdIsland>
+    );
+
+    await waitFor(() => {
+      expect(impressionsFor(top)).toBe(1);
+      expect(impressionsFor(bottom)).toBe(1);
+    });
+  });
+});
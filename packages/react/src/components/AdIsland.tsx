@@ -0,0 +1,88 @@
+import React, { useEffect, useRef } from 'react';
+import type { AdIslandProps } from '../types';
+import { hydrateAd } from '@gravity-ai/core';
+import type { ViewabilityOptions } from '@gravity-ai/core';
+
+/**
+ * AdIsland - Attaches tracking to server-rendered ads
+ *
+ * Wrap `AdMarkup` from `@gravity-ai/react/server` in an AdIsland to count impressions
+ * and report clicks once the page hydrates. Each impression is counted once per page,
+ * even when the island re-renders or remounts.
+ *
+ * @example
+ * ```tsx
+ * <AdIsland onClickTracked={(event) => analytics.track('ad_click', event)}>
+ *   <AdMarkup ad={ad} />
+ * </AdIsland>
+ * ```
+ */
+export function AdIsland({
+  children,
+  disableImpressionTracking = false,
+  viewability = false,
+  doubleClickMs,
+  onImpression,
+  onClickTracked,
+}: AdIslandProps) {
+  const container = useRef<HTMLDivElement>(null);
+
+  // Read the latest callbacks without re-attaching tracking
+  const callbacks = useRef({ onImpression, onClickTracked });
+  callbacks.current = { onImpression, onClickTracked };
+
+  const measureViewability = viewability !== false;
+  const { threshold, minDurationMs } = typeof viewability === 'object' ? viewability : ({} as ViewabilityOptions);
+
+  // Tracking attached to the current ads, so parent re-renders keep the click de-duplication
+  const tracking = useRef<{ elements: HTMLElement[]; key: string; stop: () => void } | null>(null);
+
+  // Re-attach only when the ad elements, their data or the tracking options change
+  useEffect(() => {
+    const elements = Array.from(container.current?.querySelectorAll<HTMLElement>('[data-gravity-ad-data]') ?? []);
+    const key = JSON.stringify([
+      elements.map((element) => element.getAttribute('data-gravity-ad-data')),
+      disableImpressionTracking,
+      measureViewability,
+      threshold,
+      minDurationMs,
+      doubleClickMs,
+    ]);
+    const current = tracking.current;
+    if (
+      current?.key === key &&
+      current.elements.length === elements.length &&
+      current.elements.every((element, i) => element === elements[i])
+    ) {
+      return;
+    }
+
+    current?.stop();
+    const stops = elements.map((element) =>
+      hydrateAd(element, {
+        disableImpressionTracking,
+        viewability: measureViewability && { threshold, minDurationMs },
+        doubleClickMs,
+        onImpression: (result) => callbacks.current.onImpression?.(result),
+        onClickTracked: (event) => callbacks.current.onClickTracked?.(event),
+      })
+    );
+    tracking.current = { elements, key, stop: () => stops.forEach((stop) => stop()) };
+  });
+
+  useEffect(
+    () => () => {
+      tracking.current?.stop();
+      tracking.current = null;
+    },
+    []
+  );
+
+  return (
+    <div ref={container} style={{ display: 'contents' }} data-gravity-ad-island>
+      {children}
+    </div>
+  );
+}
+
+AdIsland.displayName = 'GravityAdIsland';
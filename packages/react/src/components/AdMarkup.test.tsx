@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { AdMarkup } from './AdMarkup';
+import { AdBanner } from './AdBanner';
+import { AdCard } from './AdCard';
+import type { AdResponse } from '../types';
+
+/** Render on the server and parse the result for querying */
+function renderOnServer(element: React.ReactElement): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = renderToStaticMarkup(element);
+  return container;
+}
+
+describe('AdMarkup', () => {
+  const mockAd: AdResponse = {
+    adText: 'Server rendered ad',
+    title: 'Acme',
+    cta: 'Learn more',
+    brandName: 'Acme',
+    favicon: 'https://acme.example.com/favicon.ico',
+    impUrl: 'https://tracking.example.com/ssr-imp',
+    clickUrl: 'https://example.com/ssr-landing',
+  };
+
+  it('renders a banner without client hooks', () => {
+    const container = renderOnServer(<AdMarkup ad={mockAd} />);
+    const link = container.querySelector('a')!;
+
+    expect(link).toHaveAttribute('href', 'https://example.com/ssr-landing');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer sponsored');
+    expect(link).toHaveAttribute('data-gravity-ad');
+    expect(link.textContent).toBe('Sponsored: SponsoredServer rendered ad');
+  });
+
+  it('embeds the ad for the client island', () => {
+    const container = renderOnServer(<AdMarkup ad={mockAd} />);
+    const data = container.querySelector('a')!.getAttribute('data-gravity-ad-data');
+    expect(JSON.parse(data!)).toEqual(mockAd);
+  });
+
+  it('renders a card', () => {
+    const container = renderOnServer(<AdMarkup ad={mockAd} variant="card" />);
+    expect(container.querySelector('[data-gravity-ad-layout="card"]')).not.toBeNull();
+    expect(container.querySelector('img')).toHaveAttribute('src', 'https://acme.example.com/favicon.ico');
+    expect(container.textContent).toContain('Learn more');
+  });
+
+  it('renders the same markup as AdBanner and AdCard', () => {
+    const withoutData = (element: React.ReactElement) =>
+      renderToStaticMarkup(element).replace(/ data-gravity-ad-data="[^"]*"/, '');
+
+    expect(withoutData(<AdMarkup ad={mockAd} theme="dark" locale="ar" />))
+      .toBe(renderToStaticMarkup(<AdBanner ad={mockAd} theme="dark" locale="ar" />));
+    expect(withoutData(<AdMarkup ad={mockAd} variant="card" size="large" />))
+      .toBe(renderToStaticMarkup(<AdCard ad={mockAd} size="large" />));
+  });
+
+  it('applies the theme through CSS variables', () => {
+    const container = renderOnServer(<AdMarkup ad={mockAd} theme="dark" />);
+    expect(container.querySelector('a')!.style.backgroundColor).toBe('var(--gravity-ad-bg, #1a1a1a)');
+  });
+
+  it('selects the ad for a placement', () => {
+    const ads = [
+      { ...mockAd, placement_id: 'top' },
+      { ...mockAd, adText: 'Bottom ad', placement_id: 'bottom' },
+    ];
+    const container = renderOnServer(<AdMarkup ad={ads} placementId="bottom" />);
+    expect(container.textContent).toContain('Bottom ad');
+  });
+
+  it('renders the fallback without an ad', () => {
+    const container = renderOnServer(<AdMarkup ad={null} fallback={<span>No ad</span>} />);
+    expect(container.innerHTML).toBe('<span>No ad</span>');
+  });
+});
@@ -0,0 +1,89 @@
+import React from 'react';
+import type { AdMarkupProps } from '../types';
+import { selectAd, resolveTheme, resolveAdLocale, buildAdMarkup } from '@gravity-ai/core';
+import { renderAdMarkup } from '../markup';
+
+/**
+ * AdMarkup - Static ad markup for server rendering
+ *
+ * Renders the same banner or card as AdBanner and AdCard without hooks, event handlers
+ * or tracking, so it works in React Server Components and `renderToString`. The ad is
+ * embedded in `data-gravity-ad-data` for an `AdIsland` on the client to pick up and
+ * attach impression and click tracking.
+ *
+ * Hover and focus effects need the client and are left out; browsers still show their
+ * default focus outline.
+ *
+ * @example
+ * ```tsx
+ * // app/chat/page.tsx (a Server Component)
+ * import { AdMarkup } from '@gravity-ai/react/server';
+ * import { AdIsland } from '@gravity-ai/react';
+ *
+ * export default async function Page() {
+ *   const ads = await client.getAd({ messages, sessionId, placements });
+ *   return (
+ *     <AdIsland>
+ *       <AdMarkup ad={ads} theme="dark" />
+ *     </AdIsland>
+ *   );
+ * }
+ * ```
+ */
+export function AdMarkup({
+  ad: ads,
+  placementId,
+  variant = 'banner',
+  theme: themeProp = 'light',
+  size = 'medium',
+  className,
+  style,
+  textStyle,
+  textClassName,
+  showLabel = true,
+  labelText: labelTextProp,
+  locale,
+  dir: dirProp,
+  labelStyle,
+  fallback = null,
+  openInNewTab = true,
+  borderRadius,
+  backgroundColor,
+  textColor,
+  accentColor,
+  showFavicon = true,
+}: AdMarkupProps) {
+  const ad = selectAd(ads, placementId);
+
+  if (!ad) {
+    return <>{fallback}</>;
+  }
+
+  const theme = resolveTheme(themeProp);
+  const { labelText, dir } = resolveAdLocale({ locale, dir: dirProp, labelText: labelTextProp });
+
+  // A broken favicon is hidden by the AdIsland, since load errors need the client
+  const markup = buildAdMarkup(ad, theme, {
+    variant,
+    size,
+    labelText,
+    showLabel,
+    dir,
+    openInNewTab,
+    borderRadius,
+    backgroundColor,
+    textColor,
+    accentColor,
+    showFavicon,
+    style,
+    labelStyle,
+    textStyle,
+  });
+
+  return renderAdMarkup(markup, {
+    container: { className, 'data-gravity-ad-data': JSON.stringify(ad) },
+    text: { className: textClassName },
+  });
+}
+
+AdMarkup.displayName = 'GravityAdMarkup';
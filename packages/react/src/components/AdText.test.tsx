@@ -1,25 +1,10 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { AdText } from './AdText';
 import type { AdResponse } from '../types';
+import { fetchMock, mockImpressionBeacons } from '../test-utils';
 
-// Mock Image constructor for impression tracking
-const mockImageInstances: { src?: string }[] = [];
-const OriginalImage = globalThis.Image;
-
-beforeEach(() => {
-  mockImageInstances.length = 0;
-  globalThis.Image = class MockImage {
-    src?: string;
-    constructor() {
-      mockImageInstances.push(this);
-    }
-  } as unknown as typeof Image;
-});
-
-afterEach(() => {
-  globalThis.Image = OriginalImage;
-});
+mockImpressionBeacons();
 
 describe('AdText', () => {
   const mockAd: AdResponse = {
@@ -72,19 +57,25 @@ describe('AdText', () => {
 
   it('tracks impression on mount', () => {
     render(<AdText ad={mockAd} />);
-    expect(mockImageInstances.length).toBe(1);
-    expect(mockImageInstances[0].src).toBe('https://tracking.example.com/imp');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://tracking.example.com/imp',
+      expect.objectContaining({ keepalive: true })
+    );
   });
 
   it('does not track impression when disabled', () => {
     render(<AdText ad={mockAd} disableImpressionTracking />);
-    expect(mockImageInstances.length).toBe(0);
+    expect(fetchMock).not.toHaveBeenCalled();
   });
 
-  it('calls onImpression callback', () => {
+  it('calls onImpression callback', async () => {
     const onImpression = vi.fn();
     render(<AdText ad={mockAd} onImpression={onImpression} />);
-    expect(onImpression).toHaveBeenCalledTimes(1);
+    await waitFor(() => expect(onImpression).toHaveBeenCalledTimes(1));
+    expect(onImpression).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://tracking.example.com/imp', success: true })
+    );
   });
 
   it('calls onClick when clicked', () => {
@@ -130,4 +121,31 @@ describe('AdText', () => {
     const link = screen.getByRole('link');
     expect(link).toHaveStyle({ color: 'inherit' });
   });
+
+  it('renders the ad for the given placementId', () => {
+    const ads: AdResponse[] = [
+      { adText: 'Header ad', placement_id: 'header' },
+      { adText: 'Footer ad', placement_id: 'footer' },
+    ];
+    render(<AdText ad={ads} placementId="footer" />);
+    expect(screen.getByText('Footer ad')).toBeInTheDocument();
+    expect(screen.queryByText('Header ad')).not.toBeInTheDocument();
+  });
+
+  describe('accessibility', () => {
+    it('has no axe violations', async () => {
+      const { container } = render(<AdText ad={mockAd} />);
+      await expect(container).toHaveNoAxeViolations();
+    });
+
+    it('discloses the ad in the link name', () => {
+      render(<AdText ad={mockAd} labelText="Anzeige" />);
+      expect(screen.getByRole('link', { name: 'Anzeige: Check out our amazing product!' })).toBeInTheDocument();
+    });
+
+    it('has no axe violations without a clickUrl', async () => {
+      const { container } = render(<AdText ad={{ adText: 'No link' }} />);
+      await expect(container).toHaveNoAxeViolations();
+    });
+  });
 });
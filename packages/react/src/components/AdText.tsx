@@ -1,12 +1,15 @@
 import React from 'react';
 import type { AdTextProps } from '../types';
 import { useAdTracking } from '../hooks/useAdTracking';
+import { useAdLocale } from '../hooks/useAdLocale';
+import { selectAd, visuallyHiddenStyle } from '@gravity-ai/core';
 
 /**
  * AdText - A minimal text-only component for rendering Gravity AI advertisements
  *
  * Use this when you want full control over styling and just need the ad text
- * with automatic tracking.
+ * with automatic tracking. Screen readers hear `labelText` before the ad text; when
+ * showing it without a visible disclosure, label it as sponsored in your own UI.
  *
  * @example
  * ```tsx
@@ -23,21 +26,31 @@ import { useAdTracking } from '../hooks/useAdTracking';
  * ```
  */
 export function AdText({
-  ad,
+  ad: ads,
+  placementId,
   className,
   style,
   onClick,
   onImpression,
   onClickTracked,
+  doubleClickMs,
   fallback = null,
   disableImpressionTracking = false,
+  viewability,
   openInNewTab = true,
+  labelText: labelTextProp,
+  locale,
+  dir: dirProp,
 }: AdTextProps) {
-  const { handleClick } = useAdTracking({
+  const ad = selectAd(ads, placementId);
+  const { labelText, dir } = useAdLocale({ locale, dir: dirProp, labelText: labelTextProp });
+  const { handleClick, ref } = useAdTracking({
     ad,
     disableImpressionTracking,
+    viewability,
     onImpression,
     onClickTracked,
+    doubleClickMs,
   });
 
   // Return fallback if no ad
@@ -46,11 +59,14 @@ export function AdText({
   }
 
   const handleClickInternal = (e: React.MouseEvent) => {
-    handleClick();
+    handleClick(e);
     onClick?.();
+  };
 
-    if (!ad.clickUrl) {
-      e.preventDefault();
+  // Track middle clicks, which open the ad in a new tab; ignore right clicks
+  const handleAuxClick = (e: React.MouseEvent) => {
+    if (e.button === 1) {
+      handleClickInternal(e);
     }
   };
 
@@ -70,15 +86,20 @@ export function AdText({
         className={className}
         style={baseStyle}
         onClick={handleClickInternal}
+        onAuxClick={handleAuxClick}
+        dir={dir}
         data-gravity-ad
+        ref={ref}
       >
+        <span style={visuallyHiddenStyle}>{`${labelText}: `}</span>
         {ad.adText}
       </a>
     );
   }
 
   return (
-    <span className={className} style={baseStyle} data-gravity-ad>
+    <span className={className} style={baseStyle} dir={dir} data-gravity-ad ref={ref}>
+      <span style={visuallyHiddenStyle}>{`${labelText}: `}</span>
       {ad.adText}
     </span>
   );
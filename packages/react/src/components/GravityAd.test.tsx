@@ -0,0 +1,92 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { GravityAd } from './GravityAd';
+import { GravityProvider } from './GravityProvider';
+import type { AdRequestResult, ChatMessage, GravityAdProps, GravityClient } from '../types';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'What are good hiking trails?' }];
+const filled: AdRequestResult = {
+  kind: 'filled',
+  ads: [{ adText: 'Try our trail shoes', clickUrl: 'https://example.com/click', placement_id: 'main' }],
+};
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(null)));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  localStorage.clear();
+});
+
+function renderAd(result: AdRequestResult | Promise<AdRequestResult>, props: Partial<GravityAdProps> = {}) {
+  const client: GravityClient = { getAdResult: vi.fn(async () => result) };
+  return render(
+    <GravityProvider client={client} sessionId="session-123">
+      <GravityAd placement="below_response" placementId="main" messages={messages} debounceMs={0} {...props} />
+    </GravityProvider>
+  );
+}
+
+describe('GravityAd', () => {
+  it('renders an AdBanner once filled', async () => {
+    renderAd(filled);
+
+    await waitFor(() => expect(screen.getByText('Try our trail shoes')).toBeInTheDocument());
+    expect(screen.getByText('Sponsored')).toBeInTheDocument();
+  });
+
+  it('shows a skeleton while loading', async () => {
+    renderAd(new Promise(() => {}));
+
+    await waitFor(() => expect(screen.getByLabelText('Loading sponsored content')).toBeInTheDocument());
+  });
+
+  it('shows a custom skeleton', async () => {
+    renderAd(new Promise(() => {}), { skeleton: <div>Loading ad…</div> });
+
+    await waitFor(() => expect(screen.getByText('Loading ad…')).toBeInTheDocument());
+  });
+
+  it('shows nothing while loading when skeleton is false', async () => {
+    const { container } = renderAd(new Promise(() => {}), { skeleton: false });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('collapses on no fill', async () => {
+    const { container } = renderAd({ kind: 'no_fill' });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('collapses on error', async () => {
+    const { container } = renderAd({ kind: 'error', error: new Error('fail') });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('renders the text variant', async () => {
+    renderAd(filled, { variant: 'text' });
+
+    await waitFor(() => expect(screen.getByText('Try our trail shoes')).toBeInTheDocument());
+    expect(screen.queryByText('Sponsored')).not.toBeInTheDocument();
+  });
+
+  it('uses the render prop when given', async () => {
+    renderAd(filled, { render: (ad) => <strong>Custom: {ad.adText}</strong> });
+
+    await waitFor(() => expect(screen.getByText('Custom: Try our trail shoes')).toBeInTheDocument());
+  });
+
+  it('passes display props to AdBanner', async () => {
+    renderAd(filled, { labelText: 'Ad', className: 'chat-ad' });
+
+    await waitFor(() => expect(screen.getByText('Ad')).toBeInTheDocument());
+    expect(screen.getByRole('link')).toHaveClass('chat-ad');
+  });
+});
@@ -0,0 +1,114 @@
+import React from 'react';
+import type { GravityAdProps } from '../types';
+import { useGravityAd } from '../hooks/useGravityAd';
+import { useGravityTheme } from '../hooks/useGravityTheme';
+import { AdBanner } from './AdBanner';
+import { AdCard } from './AdCard';
+import { AdText } from './AdText';
+import { autoTheme, autoThemeCss, getSkeletonStyles, skeletonLineStyle } from '@gravity-ai/core';
+
+/**
+ * GravityAd - An ad slot that requests and renders its own ad
+ *
+ * Requests the ad through the nearest GravityProvider, shows a skeleton while the
+ * first ad loads, and renders nothing on no-fill or error.
+ *
+ * @example
+ * ```tsx
+ * import { GravityAd } from '@gravity-ai/react';
+ *
+ * function Chat({ messages, isStreaming }) {
+ *   return (
+ *     <>
+ *       <MessageList messages={messages} />
+ *       <GravityAd
+ *         placement="below_response"
+ *         placementId="main"
+ *         messages={messages}
+ *         isStreaming={isStreaming}
+ *         theme="dark"
+ *       />
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function GravityAd({
+  messages,
+  placement,
+  placementId,
+  isStreaming,
+  debounceMs,
+  enabled,
+  variant = 'banner',
+  skeleton,
+  render,
+  ...displayProps
+}: GravityAdProps) {
+  const { ad, status } = useGravityAd({
+    messages,
+    placement,
+    placementId,
+    isStreaming,
+    debounceMs,
+    enabled,
+  });
+  const theme = useGravityTheme(displayProps.theme);
+
+  if (!ad) {
+    if (status !== 'loading' || skeleton === false) {
+      return null;
+    }
+
+    if (skeleton !== undefined) {
+      return <>{skeleton}</>;
+    }
+
+    return (
+      <div
+        className={displayProps.className}
+        style={getSkeletonStyles(theme, displayProps.size ?? 'medium')}
+        aria-busy="true"
+        aria-label="Loading sponsored content"
+        data-gravity-ad-skeleton
+        data-gravity-theme={theme === autoTheme ? 'auto' : undefined}
+      >
+        {theme === autoTheme && <style dangerouslySetInnerHTML={{ __html: autoThemeCss }} />}
+        <div style={{ ...skeletonLineStyle, width: '25%', marginTop: 0 }} />
+        <div style={{ ...skeletonLineStyle, width: '90%' }} />
+      </div>
+    );
+  }
+
+  if (render) {
+    return <>{render(ad)}</>;
+  }
+
+  if (variant === 'text') {
+    return (
+      <AdText
+        ad={ad}
+        className={displayProps.className}
+        style={displayProps.style}
+        onClick={displayProps.onClick}
+        onImpression={displayProps.onImpression}
+        onClickTracked={displayProps.onClickTracked}
+        doubleClickMs={displayProps.doubleClickMs}
+        disableImpressionTracking={displayProps.disableImpressionTracking}
+        viewability={displayProps.viewability}
+        openInNewTab={displayProps.openInNewTab}
+        labelText={displayProps.labelText}
+        locale={displayProps.locale}
+        dir={displayProps.dir}
+      />
+    );
+  }
+
+  if (variant === 'card') {
+    return <AdCard ad={ad} {...displayProps} />;
+  }
+
+  return <AdBanner ad={ad} {...displayProps} />;
+}
+
+GravityAd.displayName = 'GravityAd';
@@ -0,0 +1,51 @@
+import React, { createContext, useMemo } from 'react';
+import type { GravityProviderProps } from '../types';
+
+/**
+ * Context value provided by GravityProvider
+ */
+export type GravityContextValue = Omit<GravityProviderProps, 'children'>;
+
+export const GravityContext = createContext<GravityContextValue | null>(null);
+
+/**
+ * GravityProvider - Shares a Gravity API client and request defaults with ad hooks and components
+ *
+ * The `locale` is sent with ad requests, and ads inside translate their "Sponsored" label
+ * and follow the locale's text direction.
+ *
+ * @example
+ * ```tsx
+ * import { Client } from '@gravity-ai/api';
+ * import { GravityProvider } from '@gravity-ai/react';
+ *
+ * const client = new Client('your-api-key');
+ *
+ * function App() {
+ *   return (
+ *     <GravityProvider client={client} sessionId={sessionId} userId={user.id} locale="he-IL">
+ *       <Chat />
+ *     </GravityProvider>
+ *   );
+ * }
+ * ```
+ */
+export function GravityProvider({
+  client,
+  sessionId,
+  userId,
+  user,
+  device,
+  locale,
+  labels,
+  children,
+}: GravityProviderProps) {
+  const value = useMemo(
+    () => ({ client, sessionId, userId, user, device, locale, labels }),
+    [client, sessionId, userId, user, device, locale, labels]
+  );
+
+  return <GravityContext.Provider value={value}>{children}</GravityContext.Provider>;
+}
+
+GravityProvider.displayName = 'GravityProvider';
@@ -0,0 +1,30 @@
+import React, { createContext } from 'react';
+import type { AdTheme, GravityThemeProviderProps } from '../types';
+
+export const GravityThemeContext = createContext<AdTheme | null>(null);
+
+/**
+ * GravityThemeProvider - Sets the default theme for all ads inside it
+ *
+ * Ads that pass their own `theme` prop keep it.
+ *
+ * @example
+ * ```tsx
+ * import { GravityThemeProvider, createTheme } from '@gravity-ai/react';
+ *
+ * const theme = createTheme({ base: 'dark', background: '#0f172a', ctaBackground: '#38bdf8' });
+ *
+ * function App() {
+ *   return (
+ *     <GravityThemeProvider theme={theme}>
+ *       <Chat />
+ *     </GravityThemeProvider>
+ *   );
+ * }
+ * ```
+ */
+export function GravityThemeProvider({ theme, children }: GravityThemeProviderProps) {
+  return <GravityThemeContext.Provider value={theme}>{children}</GravityThemeContext.Provider>;
+}
+
+GravityThemeProvider.displayName = 'GravityThemeProvider';
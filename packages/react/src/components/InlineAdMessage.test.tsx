@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { InlineAdMessage } from './InlineAdMessage';
+import type { AdResponse } from '../types';
+import { fetchMock, mockImpressionBeacons } from '../test-utils';
+
+mockImpressionBeacons();
+
+describe('InlineAdMessage', () => {
+  const mockAd: AdResponse = {
+    adText: 'Try our database.',
+    title: 'Acme DB',
+    cta: 'Start free',
+    impUrl: 'https://tracking.example.com/inline-imp',
+    clickUrl: 'https://example.com/inline-landing',
+  };
+
+  const markdown = 'First paragraph.\n\n```\ncode\n```\n\nSecond paragraph.';
+  const rules = { minCharsBefore: 0 };
+
+  it('inserts the ad after a paragraph', () => {
+    const { container } = render(<InlineAdMessage content={markdown} ad={mockAd} rules={rules} />);
+    const blocks = Array.from(container.children);
+
+    expect(blocks).toHaveLength(3);
+    expect(blocks[0].textContent).toBe('First paragraph.');
+    expect(blocks[1]).toHaveAttribute('data-gravity-inline-ad');
+    expect(blocks[2].textContent).toContain('Second paragraph.');
+  });
+
+  it('marks the ad as sponsored', () => {
+    render(<InlineAdMessage content={markdown} ad={mockAd} rules={rules} />);
+    expect(screen.getByRole('complementary', { name: 'Sponsored' })).toBeInTheDocument();
+    expect(screen.getByText('Sponsored')).toBeInTheDocument();
+  });
+
+  it('renders the response alone without an ad', () => {
+    const { container } = render(<InlineAdMessage content={markdown} ad={null} rules={rules} />);
+    expect(container.children).toHaveLength(1);
+    expect(container.querySelector('[data-gravity-inline-ad]')).toBeNull();
+  });
+
+  it('joins streamed chunks', () => {
+    render(<InlineAdMessage content={['First ', 'paragraph.\n\n', 'Sec']} ad={mockAd} rules={rules} isStreaming />);
+    expect(screen.getByText('First paragraph.')).toBeInTheDocument();
+    expect(screen.getByText('Try our database.')).toBeInTheDocument();
+  });
+
+  it('waits for a safe boundary while streaming', () => {
+    const { rerender } = render(
+      <InlineAdMessage content="First paragraph.\n" ad={mockAd} rules={rules} isStreaming />
+    );
+    expect(screen.queryByText('Try our database.')).not.toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    rerender(<InlineAdMessage content={'First paragraph.\n\nNext'} ad={mockAd} rules={rules} isStreaming />);
+    expect(screen.getByText('Try our database.')).toBeInTheDocument();
+  });
+
+  it('uses the custom markdown renderer', () => {
+    render(
+      <InlineAdMessage
+        content={markdown}
+        ad={mockAd}
+        rules={rules}
+        renderMarkdown={(text) => <section data-testid="md">{text.trim()}</section>}
+      />
+    );
+    expect(screen.getAllByTestId('md')).toHaveLength(2);
+  });
+
+  it('renders a card variant', () => {
+    render(<InlineAdMessage content={markdown} ad={mockAd} rules={rules} variant="card" />);
+    expect(screen.getByText('Start free')).toBeInTheDocument();
+  });
+});
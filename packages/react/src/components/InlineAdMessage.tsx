@@ -0,0 +1,74 @@
+import React from 'react';
+import type { InlineAdMessageProps } from '../types';
+import { selectAd, inlineAdContainerStyle } from '@gravity-ai/core';
+import { useAdLocale } from '../hooks/useAdLocale';
+import { findInlineAdPosition } from '../inline';
+import { AdBanner } from './AdBanner';
+import { AdCard } from './AdCard';
+
+const renderPlainText = (markdown: string) => <div style={{ whiteSpace: 'pre-wrap' }}>{markdown.trim()}</div>;
+
+/**
+ * InlineAdMessage - An assistant response with an ad inserted between its paragraphs
+ *
+ * The ad goes after a paragraph, never inside a code block, list or table, and is shown
+ * with its sponsored label inside a marked-off container. While the response streams,
+ * the ad appears once a qualifying paragraph is followed by more text and then stays in
+ * place. Until then, or without an ad, the response renders on its own.
+ *
+ * The markdown is rendered in two slices, so reference-style link definitions should not
+ * be relied on across the ad.
+ *
+ * @example
+ * ```tsx
+ * import ReactMarkdown from 'react-markdown';
+ * import { InlineAdMessage } from '@gravity-ai/react';
+ *
+ * <InlineAdMessage
+ *   content={message.content}
+ *   ad={ad}
+ *   isStreaming={isStreaming}
+ *   rules={{ afterParagraph: 2 }}
+ *   renderMarkdown={(markdown) => <ReactMarkdown>{markdown}</ReactMarkdown>}
+ * />
+ * ```
+ */
+export function InlineAdMessage({
+  content,
+  ad: ads,
+  placementId,
+  rules,
+  isStreaming = false,
+  renderMarkdown = renderPlainText,
+  variant = 'banner',
+  ...displayProps
+}: InlineAdMessageProps) {
+  const markdown = typeof content === 'string' ? content : content.join('');
+  const ad = selectAd(ads, placementId);
+  const { labelText } = useAdLocale(displayProps);
+  const position = ad ? findInlineAdPosition(markdown, rules, !isStreaming) : null;
+
+  if (!ad || position === null) {
+    return <>{renderMarkdown(markdown)}</>;
+  }
+
+  const before = markdown.slice(0, position);
+  const after = markdown.slice(position);
+  const Ad = variant === 'card' ? AdCard : AdBanner;
+
+  return (
+    <>
+      {renderMarkdown(before)}
+      <aside
+        style={inlineAdContainerStyle}
+        aria-label={labelText}
+        data-gravity-inline-ad
+      >
+        <Ad ad={ad} {...displayProps} />
+      </aside>
+      {after.trim() && renderMarkdown(after)}
+    </>
+  );
+}
+
+InlineAdMessage.displayName = 'GravityInlineAdMessage';
@@ -1,3 +1,9 @@
 export { AdBanner } from './AdBanner';
+export { AdCard } from './AdCard';
 export { AdText } from './AdText';
+export { GravityProvider } from './GravityProvider';
+export { GravityThemeProvider } from './GravityThemeProvider';
+export { GravityAd } from './GravityAd';
+export { InlineAdMessage } from './InlineAdMessage';
+export { AdIsland } from './AdIsland';
 
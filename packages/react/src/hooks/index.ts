@@ -1,2 +1,4 @@
 export { useAdTracking } from './useAdTracking';
+export { useGravityAd } from './useGravityAd';
 
+export { useGravityTheme } from './useGravityTheme';
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import type { InteractionState } from '@gravity-ai/core';
+import { useMediaQuery } from './useMediaQuery';
+
+/**
+ * Whether an element was focused from the keyboard rather than by a click
+ */
+function isFocusVisible(element: Element): boolean {
+  try {
+    return element.matches(':focus-visible');
+  } catch {
+    // Browsers without :focus-visible show focus either way
+    return true;
+  }
+}
+
+/**
+ * Hook to track hover, keyboard focus and reduced motion for an ad's hover effect
+ *
+ * @returns The interaction state, and handlers to spread onto the ad element
+ */
+export function useAdInteraction(): InteractionState & {
+  handlers: Pick<React.HTMLAttributes<HTMLElement>, 'onMouseEnter' | 'onMouseLeave' | 'onFocus' | 'onBlur'>;
+} {
+  const [hovered, setHovered] = useState(false);
+  const [focusVisible, setFocusVisible] = useState(false);
+  const reducedMotion = useMediaQuery('(prefers-reduced-motion: reduce)');
+
+  return {
+    hovered,
+    focusVisible,
+    reducedMotion,
+    handlers: {
+      onMouseEnter: () => setHovered(true),
+      onMouseLeave: () => setHovered(false),
+      onFocus: (e) => setFocusVisible(isFocusVisible(e.currentTarget)),
+      onBlur: () => setFocusVisible(false),
+    },
+  };
+}
@@ -0,0 +1,14 @@
+import { useContext } from 'react';
+import type { TextDirection } from '../types';
+import { GravityContext } from '../components/GravityProvider';
+import { resolveAdLocale } from '@gravity-ai/core';
+
+/**
+ * Hook to resolve an ad's label text and direction
+ *
+ * Falls back to the nearest GravityProvider's locale and labels.
+ */
+export function useAdLocale(props: { locale?: string; dir?: TextDirection; labelText?: string }) {
+  const context = useContext(GravityContext);
+  return resolveAdLocale({ ...props, locale: props.locale ?? context?.locale, labels: context?.labels });
+}
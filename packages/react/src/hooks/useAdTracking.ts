@@ -1,62 +1,113 @@
-import { useEffect, useRef, useCallback } from 'react';
-import type { AdResponse } from '../types';
+import { useContext, useEffect, useRef, useCallback, useState } from 'react';
+import type { MouseEvent } from 'react';
+import type { AdClickEvent, AdResponse } from '../types';
+import { getBeaconQueue, observeViewability, createClickEvent } from '@gravity-ai/core';
+import type { BeaconResult, ViewabilityOptions } from '@gravity-ai/core';
+import { GravityContext } from '../components/GravityProvider';
 
 interface UseAdTrackingOptions {
   ad: AdResponse | null;
   disableImpressionTracking?: boolean;
-  onImpression?: () => void;
-  onClickTracked?: () => void;
+  viewability?: boolean | ViewabilityOptions;
+  onImpression?: (result: BeaconResult) => void;
+  onClickTracked?: (event: AdClickEvent) => void;
+  doubleClickMs?: number;
 }
 
 /**
  * Hook to handle ad impression and click tracking
+ *
+ * Impressions go through the shared beacon queue, so they are retried when the
+ * user is offline and persisted if the page is closed before delivery. Inside a
+ * GravityProvider, the ad is also marked on the provider's client, so a cached
+ * response never serves it again.
+ *
+ * By default the impression is counted when the ad renders. With `viewability`,
+ * it is counted once the element passed to `ref` has been on screen long enough.
+ *
+ * Clicks are reported to `onClickTracked` with their type, position and time since
+ * the impression. Repeat clicks within `doubleClickMs` (default: 500) are ignored and
+ * their navigation is cancelled, so a double click opens the ad once.
  */
 export function useAdTracking({
   ad,
   disableImpressionTracking = false,
+  viewability = false,
   onImpression,
   onClickTracked,
+  doubleClickMs = 500,
 }: UseAdTrackingOptions) {
-  const impressionTracked = useRef(false);
+  // The impression URL already queued, so each ad is counted once per mount
+  const trackedImpUrl = useRef<string | null>(null);
 
-  // Track impression when ad becomes visible
+  // When the impression was counted, for time-to-click
+  const impressionTime = useRef<number | null>(null);
+
+  // When the last click was reported, for double click de-duplication
+  const lastClickTime = useRef<number | null>(null);
+
+  // Element measured for viewability, set through the returned ref
+  const [element, setElement] = useState<Element | null>(null);
+
+  // Read the latest callback when the impression fires, without restarting the dwell timer
+  const onImpressionRef = useRef(onImpression);
+  onImpressionRef.current = onImpression;
+
+  const client = useContext(GravityContext)?.client;
+  const clientRef = useRef(client);
+  clientRef.current = client;
+
+  const measureViewability = viewability !== false;
+  const { threshold, minDurationMs } = typeof viewability === 'object' ? viewability : ({} as ViewabilityOptions);
+
+  // Track impression when ad renders, or once it is viewable
   useEffect(() => {
-    if (!ad || !ad.impUrl || disableImpressionTracking || impressionTracked.current) {
+    const impUrl = ad?.impUrl;
+    if (!ad || !impUrl || disableImpressionTracking || trackedImpUrl.current === impUrl) {
       return;
     }
 
-    // Fire impression pixel
-    const trackImpression = async () => {
-      try {
-        // Use an image beacon for reliable tracking
-        const img = new Image();
-        img.src = ad.impUrl!;
-        impressionTracked.current = true;
-        onImpression?.();
-      } catch (error) {
-        console.error('[Gravity] Failed to track impression:', error);
-      }
+    const trackImpression = () => {
+      trackedImpUrl.current = impUrl;
+      impressionTime.current = Date.now();
+      getBeaconQueue().enqueue(impUrl, (result) => onImpressionRef.current?.(result));
+      clientRef.current?.markImpression?.(ad).catch(() => {});
     };
 
-    trackImpression();
-  }, [ad, disableImpressionTracking, onImpression]);
+    if (!measureViewability) {
+      trackImpression();
+      return;
+    }
+
+    if (!element) {
+      return;
+    }
+
+    return observeViewability(element, { threshold, minDurationMs }, trackImpression);
+  }, [ad?.impUrl, disableImpressionTracking, measureViewability, threshold, minDurationMs, element]);
 
-  // Reset impression tracking when ad changes
-  useEffect(() => {
-    impressionTracked.current = false;
-  }, [ad?.impUrl]);
+  // Handle click tracking (the click itself is counted when the browser follows clickUrl)
+  const handleClick = useCallback(
+    (event?: MouseEvent): AdClickEvent | null => {
+      if (!ad) return null;
 
-  // Handle click tracking
-  const handleClick = useCallback(() => {
-    if (!ad?.clickUrl) return;
+      const now = Date.now();
+      if (lastClickTime.current !== null && now - lastClickTime.current < doubleClickMs) {
+        event?.preventDefault();
+        return null;
+      }
+      lastClickTime.current = now;
 
-    // Fire click tracking (the actual navigation is handled separately)
-    onClickTracked?.();
-  }, [ad?.clickUrl, onClickTracked]);
+      const clickEvent = createClickEvent(ad, event, impressionTime.current, now);
+      onClickTracked?.(clickEvent);
+      return clickEvent;
+    },
+    [ad, doubleClickMs, onClickTracked]
+  );
 
   return {
     handleClick,
-    impressionTracked: impressionTracked.current,
+    ref: setElement,
+    impressionTracked: !!ad?.impUrl && trackedImpUrl.current === ad.impUrl,
   };
 }
-
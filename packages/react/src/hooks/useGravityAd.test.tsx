@@ -0,0 +1,167 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useGravityAd } from './useGravityAd';
+import { GravityProvider } from '../components/GravityProvider';
+import type { AdRequestResult, ChatMessage, GravityClient, UseGravityAdOptions } from '../types';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'What are good hiking trails?' }];
+const filled = (adText: string): AdRequestResult => ({ kind: 'filled', ads: [{ adText, placement_id: 'below_response' }] });
+
+function createClient(...results: (AdRequestResult | Promise<AdRequestResult>)[]) {
+  const getAdResult = vi.fn(async () => results.shift() ?? { kind: 'no_fill' as const });
+  return { client: { getAdResult } as GravityClient, getAdResult };
+}
+
+function renderGravityAd(client: GravityClient, options: Partial<UseGravityAdOptions> = {}) {
+  return renderHook((props: Partial<UseGravityAdOptions>) =>
+    useGravityAd({ messages, placement: 'below_response', debounceMs: 0, ...options, ...props }), {
+    initialProps: {},
+    wrapper: ({ children }) => (
+      <GravityProvider client={client} sessionId="session-123" userId="user-1">
+        {children}
+      </GravityProvider>
+    ),
+  });
+}
+
+describe('useGravityAd', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('requests an ad with the provider defaults', async () => {
+    const { client, getAdResult } = createClient(filled('Hiking boots'));
+
+    const { result } = renderGravityAd(client);
+
+    await waitFor(() => expect(result.current.status).toBe('filled'));
+    expect(result.current.ad?.adText).toBe('Hiking boots');
+    expect(getAdResult).toHaveBeenCalledWith(
+      {
+        messages,
+        sessionId: 'session-123',
+        userId: 'user-1',
+        placements: [{ placement: 'below_response', placement_id: 'below_response' }],
+      },
+      { signal: expect.any(AbortSignal) }
+    );
+  });
+
+  it('sends the provider locale with the request', async () => {
+    const { client, getAdResult } = createClient(filled('Hiking boots'));
+
+    renderHook(() => useGravityAd({ messages, placement: 'below_response', debounceMs: 0 }), {
+      wrapper: ({ children }) => (
+        <GravityProvider client={client} sessionId="session-123" device={{ ip: '1.2.3.4' }} locale="he-IL">
+          {children}
+        </GravityProvider>
+      ),
+    });
+
+    await waitFor(() =>
+      expect(getAdResult).toHaveBeenCalledWith(
+        expect.objectContaining({ device: { ip: '1.2.3.4' }, locale: 'he-IL' }),
+        expect.anything()
+      )
+    );
+  });
+
+  it('reports no fill and errors', async () => {
+    const error = new Error('Server error');
+    const { client } = createClient({ kind: 'no_fill' }, { kind: 'error', error });
+
+    const { result } = renderGravityAd(client);
+    await waitFor(() => expect(result.current.status).toBe('no_fill'));
+
+    act(() => result.current.refetch());
+    await waitFor(() => expect(result.current.status).toBe('error'));
+    expect(result.current.error).toBe(error);
+    expect(result.current.ad).toBeNull();
+  });
+
+  it('reports requests blocked by a frequency cap', async () => {
+    const { client } = createClient({ kind: 'capped', rule: 'maxAds' });
+
+    const { result } = renderGravityAd(client);
+    await waitFor(() => expect(result.current.status).toBe('capped'));
+    expect(result.current.ad).toBeNull();
+    expect(result.current.error).toBeNull();
+  });
+
+  it('reports an error without requesting when there is no session ID', async () => {
+    const { client, getAdResult } = createClient(filled('Hiking boots'));
+
+    const { result } = renderHook(() => useGravityAd({ messages, placement: 'below_response', debounceMs: 0 }), {
+      wrapper: ({ children }) => <GravityProvider client={client}>{children}</GravityProvider>,
+    });
+
+    await waitFor(() => expect(result.current.status).toBe('error'));
+    expect(result.current.error?.message).toMatch(/sessionId/);
+    expect(getAdResult).not.toHaveBeenCalled();
+  });
+
+  it('waits until streaming has finished', async () => {
+    const { client, getAdResult } = createClient(filled('Tent'));
+
+    const { result, rerender } = renderGravityAd(client, { isStreaming: true });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(getAdResult).not.toHaveBeenCalled();
+    expect(result.current.status).toBe('idle');
+
+    rerender({ isStreaming: false });
+    await waitFor(() => expect(result.current.status).toBe('filled'));
+  });
+
+  it('debounces rapid message changes', async () => {
+    vi.useFakeTimers();
+    const { client, getAdResult } = createClient(filled('Tent'));
+
+    const { rerender } = renderGravityAd(client, { debounceMs: 300 });
+    act(() => vi.advanceTimersByTime(200));
+    rerender({ messages: [...messages, { role: 'assistant', content: 'Here are a few' }] });
+    act(() => vi.advanceTimersByTime(200));
+    expect(getAdResult).not.toHaveBeenCalled();
+
+    await act(() => vi.advanceTimersByTimeAsync(100));
+    expect(getAdResult).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not refetch when messages are re-created with the same content', async () => {
+    const { client, getAdResult } = createClient(filled('Tent'));
+
+    const { result, rerender } = renderGravityAd(client);
+    await waitFor(() => expect(result.current.status).toBe('filled'));
+    rerender({ messages: [...messages] });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(getAdResult).toHaveBeenCalledTimes(1);
+  });
+
+  it('discards responses for outdated messages', async () => {
+    let resolveFirst: (result: AdRequestResult) => void = () => {};
+    const { client, getAdResult } = createClient(
+      new Promise<AdRequestResult>((resolve) => (resolveFirst = resolve)),
+      filled('Current ad')
+    );
+
+    const { result, rerender } = renderGravityAd(client);
+    await waitFor(() => expect(getAdResult).toHaveBeenCalledTimes(1));
+    const firstSignal = (getAdResult.mock.calls[0] as unknown as [unknown, { signal: AbortSignal }])[1].signal;
+
+    rerender({ messages: [...messages, { role: 'user', content: 'And tents?' }] });
+    expect(firstSignal.aborted).toBe(true);
+    await waitFor(() => expect(result.current.ad?.adText).toBe('Current ad'));
+
+    await act(async () => resolveFirst(filled('Stale ad')));
+    expect(result.current.ad?.adText).toBe('Current ad');
+  });
+
+  it('throws outside a GravityProvider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderHook(() => useGravityAd({ messages, placement: 'below_response' }))).toThrow(
+      /GravityProvider/
+    );
+    vi.mocked(console.error).mockRestore();
+  });
+});
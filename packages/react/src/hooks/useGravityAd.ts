@@ -0,0 +1,133 @@
+import { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import type { GravityAdStatus, UseGravityAdOptions, UseGravityAdResult, AdResponse } from '../types';
+import { GravityContext } from '../components/GravityProvider';
+
+interface GravityAdState {
+  ad: AdResponse | null;
+  status: GravityAdStatus;
+  error: Error | null;
+}
+
+/**
+ * Hook to request an ad for one placement through the GravityProvider's client
+ *
+ * Requests wait until the assistant has finished streaming and the messages have
+ * been stable for `debounceMs`. Responses for outdated messages are discarded and
+ * their requests cancelled. The previous ad stays in place while a new one loads.
+ * With a `frequencyCap` on the client, requests it blocks end in the 'capped' status.
+ * Without a session ID from the provider or the hook, no request is sent and the
+ * status is 'error'.
+ *
+ * @example
+ * ```tsx
+ * function ChatFooter({ messages, isStreaming }) {
+ *   const { ad, status } = useGravityAd({ messages, placement: 'below_response', isStreaming });
+ *
+ *   return status === 'loading' && !ad ? <Spinner /> : <AdBanner ad={ad} />;
+ * }
+ * ```
+ */
+export function useGravityAd({
+  messages,
+  placement,
+  placementId = placement,
+  isStreaming = false,
+  debounceMs = 300,
+  enabled = true,
+  sessionId,
+}: UseGravityAdOptions): UseGravityAdResult {
+  const context = useContext(GravityContext);
+  if (!context) {
+    throw new Error('[Gravity] useGravityAd must be used inside a GravityProvider');
+  }
+
+  const [state, setState] = useState<GravityAdState>({ ad: null, status: 'idle', error: null });
+
+  // Only the latest request may update state
+  const latestRequest = useRef(0);
+  const controller = useRef<AbortController | null>(null);
+
+  // Compare messages by content, since callers often pass a new array on every render
+  const messagesKey = JSON.stringify(messages);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const { client, userId, user, device, locale } = context;
+  const resolvedSessionId = sessionId ?? context.sessionId;
+
+  const fetchAd = useCallback(async () => {
+    const requestId = ++latestRequest.current;
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+
+    if (!resolvedSessionId) {
+      setState({
+        ad: null,
+        status: 'error',
+        error: new Error('[Gravity] useGravityAd needs a sessionId, set on the GravityProvider or the hook'),
+      });
+      return;
+    }
+
+    setState((previous) => ({ ...previous, status: 'loading', error: null }));
+
+    try {
+      const result = await client.getAdResult(
+        {
+          messages: messagesRef.current,
+          sessionId: resolvedSessionId,
+          placements: [{ placement, placement_id: placementId }],
+          ...(userId !== undefined && { userId }),
+          ...(user !== undefined && { user }),
+          ...(device !== undefined && { device }),
+          ...(locale !== undefined && { locale }),
+        },
+        { signal: current.signal }
+      );
+
+      if (requestId !== latestRequest.current) return;
+
+      if (result.kind === 'filled') {
+        const ad = result.ads.find((candidate) => candidate.placement_id === placementId) ?? result.ads[0];
+        setState({ ad, status: 'filled', error: null });
+      } else if (result.kind === 'no_fill' || result.kind === 'capped') {
+        setState({ ad: null, status: result.kind, error: null });
+      } else {
+        setState({ ad: null, status: 'error', error: result.error });
+      }
+    } catch (error) {
+      if (requestId !== latestRequest.current) return;
+      setState({
+        ad: null,
+        status: 'error',
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+    // messagesKey stands in for messages, which are read through messagesRef
+  }, [client, resolvedSessionId, placement, placementId, userId, user, device, locale, messagesKey]);
+
+  // Request once the conversation settles
+  useEffect(() => {
+    if (!enabled || isStreaming || messagesRef.current.length === 0) {
+      return;
+    }
+
+    const timer = setTimeout(fetchAd, debounceMs);
+    return () => clearTimeout(timer);
+  }, [fetchAd, enabled, isStreaming, debounceMs]);
+
+  // Discard in-flight responses once the request inputs change or the component unmounts
+  useEffect(() => {
+    return () => {
+      latestRequest.current++;
+      controller.current?.abort();
+    };
+  }, [fetchAd]);
+
+  const refetch = useCallback(() => {
+    void fetchAd();
+  }, [fetchAd]);
+
+  return { ...state, refetch };
+}
@@ -0,0 +1,19 @@
+import { useContext } from 'react';
+import type { AdTheme, GravityTheme } from '../types';
+import { GravityThemeContext } from '../components/GravityThemeProvider';
+import { resolveTheme } from '@gravity-ai/core';
+
+/**
+ * Hook to resolve the theme an ad should use
+ *
+ * Uses the given theme, else the nearest GravityThemeProvider's, else "light". The "auto"
+ * theme follows the OS color scheme through a CSS media query, so it is right from the
+ * first paint, including in server-rendered markup.
+ *
+ * @param theme - The ad's own theme prop
+ * @returns The theme values
+ */
+export function useGravityTheme(theme?: AdTheme): GravityTheme {
+  const contextTheme = useContext(GravityThemeContext);
+  return resolveTheme(theme ?? contextTheme ?? 'light');
+}
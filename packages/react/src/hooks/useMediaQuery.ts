@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Hook to follow a CSS media query, e.g. `(prefers-reduced-motion: reduce)`
+ *
+ * Starts out false and reads the query after mount, so the first client render matches
+ * server-rendered markup and hydration never keeps styles for the wrong preference.
+ *
+ * @param query - The media query
+ * @param enabled - Whether to listen; false always when disabled (default: true)
+ * @returns Whether the query matches
+ */
+export function useMediaQuery(query: string, enabled = true): boolean {
+  const [matches, setMatches] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+      setMatches(false);
+      return;
+    }
+
+    const mediaQuery = window.matchMedia(query);
+    const handleChange = () => setMatches(mediaQuery.matches);
+    handleChange();
+
+    // Safari before 14 only supports addListener
+    if (typeof mediaQuery.addEventListener === 'function') {
+      mediaQuery.addEventListener('change', handleChange);
+      return () => mediaQuery.removeEventListener('change', handleChange);
+    }
+    mediaQuery.addListener(handleChange);
+    return () => mediaQuery.removeListener(handleChange);
+  }, [query, enabled]);
+
+  return enabled && matches;
+}
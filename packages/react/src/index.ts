@@ -1,16 +1,67 @@
 // Components
 export { AdBanner } from './components/AdBanner';
+export { AdCard } from './components/AdCard';
 export { AdText } from './components/AdText';
+export { GravityProvider } from './components/GravityProvider';
+export { GravityThemeProvider } from './components/GravityThemeProvider';
+export { GravityAd } from './components/GravityAd';
+export { AdIsland } from './components/AdIsland';
+export { InlineAdMessage } from './components/InlineAdMessage';
 
 // Hooks
 export { useAdTracking } from './hooks/useAdTracking';
+export { useGravityAd } from './hooks/useGravityAd';
+export { useGravityTheme } from './hooks/useGravityTheme';
+
+// Utilities
+export {
+  selectAd,
+  createTheme,
+  getThemeVariables,
+  presetThemes,
+  BeaconQueue,
+  getBeaconQueue,
+  observeViewability,
+  getSponsoredLabel,
+  getTextDirection,
+  sponsoredLabels,
+  hydrateAd,
+} from '@gravity-ai/core';
+export { findInlineAdPosition } from './inline';
 
 // Types
 export type {
   AdResponse,
+  AdPlacement,
+  AdClickEvent,
+  AdClickType,
   AdTheme,
+  AdThemePreset,
+  GravityTheme,
+  GravityThemeProviderProps,
   AdSize,
+  TextDirection,
   AdBannerProps,
+  AdCardProps,
   AdTextProps,
+  ChatMessage,
+  AdRequest,
+  AdRequestResult,
+  GravityClient,
+  GravityProviderProps,
+  GravityAdStatus,
+  UseGravityAdOptions,
+  UseGravityAdResult,
+  GravityAdProps,
+  InlineAdMessageProps,
+  AdIslandProps,
 } from './types';
+export type {
+  BeaconResult,
+  BeaconQueueOptions,
+  BeaconStorage,
+  ViewabilityOptions,
+  HydrateAdOptions,
+} from '@gravity-ai/core';
+export type { InlineAdRules } from './inline';
 
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { findInlineAdPosition } from './inline';
+
+const noMinimum = { minCharsBefore: 0 };
+
+describe('findInlineAdPosition', () => {
+  it('places the ad after the first paragraph', () => {
+    const markdown = 'First paragraph.\n\nSecond paragraph.';
+    expect(findInlineAdPosition(markdown, noMinimum)).toBe('First paragraph.\n'.length);
+  });
+
+  it('honours afterParagraph', () => {
+    const markdown = 'One.\n\nTwo.\n\nThree.';
+    expect(findInlineAdPosition(markdown, { ...noMinimum, afterParagraph: 2 })).toBe('One.\n\nTwo.\n'.length);
+  });
+
+  it('honours minCharsBefore', () => {
+    const markdown = 'Short.\n\nA much longer second paragraph.\n\nThird.';
+    const position = findInlineAdPosition(markdown, { minCharsBefore: 20 });
+    expect(markdown.slice(0, position!)).toBe('Short.\n\nA much longer second paragraph.\n');
+  });
+
+  it('waits for content after the paragraph by default', () => {
+    expect(findInlineAdPosition('Only paragraph.\n\n', noMinimum)).toBeNull();
+    expect(findInlineAdPosition('Only paragraph.', { ...noMinimum, requireContentAfter: false })).toBe(15);
+  });
+
+  it('never places the ad inside a code block', () => {
+    const markdown = 'Intro:\n\n```js\nconst a = 1;\n\nconst b = 2;\n```\n\nAfter the code.\n\nMore.';
+    const position = findInlineAdPosition(markdown, { ...noMinimum, afterParagraph: 2 });
+    expect(markdown.slice(0, position!)).toBe('Intro:\n\n```js\nconst a = 1;\n\nconst b = 2;\n```\n\nAfter the code.\n');
+  });
+
+  it('does not count lists, tables, headings or quotes as paragraphs', () => {
+    const markdown = [
+      '# Heading',
+      '',
+      '- item one',
+      '',
+      '  continued item',
+      '',
+      '| a | b |',
+      '| - | - |',
+      '',
+      'Name | Value',
+      '--- | ---',
+      '',
+      '> quoted',
+      '',
+      'Setext heading',
+      '===',
+      '',
+      'Real paragraph.',
+      '',
+      'Tail.',
+    ].join('\n');
+
+    const position = findInlineAdPosition(markdown, noMinimum);
+    expect(markdown.slice(position!)).toBe('\nTail.');
+  });
+
+  it('treats a paragraph interrupted by a list as a list', () => {
+    const markdown = 'Steps:\n- one\n- two\n\nDone.\n\nEnd.';
+    const position = findInlineAdPosition(markdown, noMinimum);
+    expect(markdown.slice(position!)).toBe('\nEnd.');
+  });
+
+  it('returns null when no boundary qualifies', () => {
+    expect(findInlineAdPosition('```\ncode\n```', noMinimum)).toBeNull();
+  });
+
+  it('falls back to the end of a complete response', () => {
+    const markdown = '- only a list\n';
+    expect(findInlineAdPosition(markdown, { ...noMinimum, fallbackToEnd: true })).toBe(13);
+    expect(findInlineAdPosition(markdown, { ...noMinimum, fallbackToEnd: true }, false)).toBeNull();
+  });
+
+  describe('while streaming', () => {
+    it('does not treat a trailing newline as a paragraph break', () => {
+      expect(findInlineAdPosition('First paragraph.\n', noMinimum, false)).toBeNull();
+      expect(findInlineAdPosition('First paragraph.\n\n', noMinimum, false)).toBeNull();
+    });
+
+    it('places the ad once the next paragraph starts', () => {
+      expect(findInlineAdPosition('First paragraph.\n\nS', noMinimum, false)).toBe(17);
+    });
+
+    it('keeps the position stable as more text arrives', () => {
+      const full = 'Intro paragraph here.\n\n```\ncode\n```\n\nSecond paragraph.\n\nThird.';
+      const positions = new Set<number | null>();
+      for (let length = 1; length <= full.length; length++) {
+        const position = findInlineAdPosition(full.slice(0, length), noMinimum, length === full.length);
+        if (position !== null) positions.add(position);
+      }
+      expect([...positions]).toEqual(['Intro paragraph here.\n'.length]);
+    });
+
+    it('does not place the ad in an unterminated code block', () => {
+      expect(findInlineAdPosition('```\npara\n\nmore', noMinimum, false)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Where an inline ad may be placed within an assistant response
+ */
+export interface InlineAdRules {
+  /** Insert after this paragraph at the earliest, counting from 1 (default: 1) */
+  afterParagraph?: number;
+
+  /** Characters of the response that must come before the ad (default: 200) */
+  minCharsBefore?: number;
+
+  /** Only insert the ad once more of the response follows it (default: true) */
+  requireContentAfter?: boolean;
+
+  /** Place the ad at the end of a complete response when no boundary qualifies (default: false) */
+  fallbackToEnd?: boolean;
+}
+
+type BlockKind = 'paragraph' | 'other';
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const BLOCK_START = /^(#{1,6}(\s|$)|>|\||[-*+](\s|$)|\d+[.)](\s|$)|<)/;
+const SETEXT_OR_RULE = /^ {0,3}(=+|-+|\*{3,}|_{3,})\s*$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$|^\s*\|\s*:?-+:?\s*\|?\s*$/;
+
+/**
+ * Find where an ad can be inserted into an assistant's markdown response
+ *
+ * Only the boundary after a plain paragraph qualifies, so the ad never lands inside a
+ * code block, list, table, quote or heading. The returned offset depends only on the
+ * text before it, so it stays put as more of a streamed response arrives.
+ *
+ * @param markdown - The response so far
+ * @param rules - Position rules
+ * @param complete - Whether the response has finished streaming (default: true)
+ * @returns The character offset to insert the ad at, or null if there is no safe place yet
+ *
+ * @example
+ * ```ts
+ * const offset = findInlineAdPosition(markdown, { afterParagraph: 2 });
+ * if (offset !== null) {
+ *   const before = markdown.slice(0, offset);
+ *   const after = markdown.slice(offset);
+ * }
+ * ```
+ */
+export function findInlineAdPosition(markdown: string, rules: InlineAdRules = {}, complete = true): number | null {
+  const afterParagraph = Math.max(1, rules.afterParagraph ?? 1);
+  const minCharsBefore = rules.minCharsBefore ?? 200;
+  const requireContentAfter = rules.requireContentAfter ?? true;
+
+  let offset = 0;
+  let fence: string | null = null;
+  let block: BlockKind | null = null;
+  let paragraphs = 0;
+  let candidate: number | null = null;
+
+  // Called at the end of each paragraph; returns whether the boundary qualifies
+  const endParagraph = (end: number) => {
+    paragraphs++;
+    return paragraphs >= afterParagraph && end >= minCharsBefore;
+  };
+
+  for (const line of markdown.split('\n')) {
+    const start = offset;
+    offset += line.length + 1;
+
+    // A line still being streamed may turn out to be something else, e.g. "-" becoming "---"
+    const isLastLine = offset > markdown.length;
+    if (isLastLine && !complete && (candidate === null || line.trim() === '')) {
+      break;
+    }
+
+    if (fence) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith(fence) && /^(`+|~+)$/.test(trimmed)) {
+        fence = null;
+      }
+      continue;
+    }
+
+    if (line.trim() === '') {
+      if (block === 'paragraph' && endParagraph(start)) {
+        candidate = start;
+        if (!requireContentAfter) {
+          return candidate;
+        }
+      }
+      block = null;
+      continue;
+    }
+
+    if (candidate !== null) {
+      return candidate;
+    }
+
+    const fenceMatch = FENCE.exec(line);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      block = 'other';
+      continue;
+    }
+
+    if (block === null) {
+      // Indented blocks are code or list continuations
+      block = /^\s/.test(line) || BLOCK_START.test(line) || SETEXT_OR_RULE.test(line) ? 'other' : 'paragraph';
+    } else if (
+      block === 'paragraph' &&
+      (BLOCK_START.test(line.trimStart()) || SETEXT_OR_RULE.test(line) || TABLE_DELIMITER.test(line))
+    ) {
+      // A list, table or heading underline turns the block into something other than a paragraph
+      block = 'other';
+    }
+  }
+
+  if (!complete) {
+    return null;
+  }
+
+  const end = markdown.trimEnd().length;
+  if (!requireContentAfter && !fence && block === 'paragraph' && endParagraph(end)) {
+    return end;
+  }
+
+  return rules.fallbackToEnd ? end : null;
+}
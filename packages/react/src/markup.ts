@@ -0,0 +1,30 @@
+import React from 'react';
+import type { AdMarkupNode, AdMarkupPart } from '@gravity-ai/core';
+
+/**
+ * Props added to parts of the markup, e.g. the container's class name and handlers
+ */
+export type AdMarkupPartProps = Partial<Record<AdMarkupPart, Record<string, unknown>>>;
+
+/**
+ * Render ad markup from `buildAdMarkup` as React elements
+ *
+ * Uses no hooks, so it works in Server Components.
+ */
+export function renderAdMarkup(node: AdMarkupNode, parts?: AdMarkupPartProps): React.ReactElement;
+export function renderAdMarkup(node: AdMarkupNode | string, parts?: AdMarkupPartProps): React.ReactNode;
+export function renderAdMarkup(node: AdMarkupNode | string, parts: AdMarkupPartProps = {}): React.ReactNode {
+  if (typeof node === 'string') {
+    return node;
+  }
+  if (node.tag === 'style') {
+    // React would escape the quotes in the stylesheet's selectors
+    return React.createElement('style', { dangerouslySetInnerHTML: { __html: node.children.join('') } });
+  }
+
+  return React.createElement(
+    node.tag,
+    { ...node.attributes, style: node.style, ...(node.part && parts[node.part]) },
+    ...node.children.map((child) => renderAdMarkup(child, parts))
+  );
+}
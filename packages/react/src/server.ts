@@ -0,0 +1,29 @@
+// Server-safe entry point: nothing exported here uses hooks, effects or browser APIs
+
+// Components
+export { AdMarkup } from './components/AdMarkup';
+
+// Utilities
+export {
+  selectAd,
+  createTheme,
+  getThemeVariables,
+  presetThemes,
+  getSponsoredLabel,
+  getTextDirection,
+  sponsoredLabels,
+} from '@gravity-ai/core';
+export { findInlineAdPosition } from './inline';
+
+// Types
+export type {
+  AdResponse,
+  AdPlacement,
+  AdTheme,
+  AdThemePreset,
+  GravityTheme,
+  AdSize,
+  TextDirection,
+  AdMarkupProps,
+} from './types';
+export type { InlineAdRules } from './inline';
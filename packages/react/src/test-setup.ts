@@ -1 +1,24 @@
 import '@testing-library/jest-dom';
+import axe from 'axe-core';
+import { expect } from 'vitest';
+
+expect.extend({
+  async toHaveNoAxeViolations(received: Element) {
+    // jsdom doesn't paint, so theme contrast is checked against the theme values instead
+    const { violations } = await axe.run(received, { rules: { 'color-contrast': { enabled: false } } });
+    return {
+      pass: violations.length === 0,
+      message: () =>
+        violations.length === 0
+          ? 'Expected axe violations, found none'
+          : `Expected no axe violations, found:\n${violations.map((v) => `${v.id}: ${v.help}`).join('\n')}`,
+    };
+  },
+});
+
+declare module 'vitest' {
+  interface Assertion<T> {
+    /** Run axe-core accessibility checks on the element */
+    toHaveNoAxeViolations(): Promise<T>;
+  }
+}
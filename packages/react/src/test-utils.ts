@@ -0,0 +1,39 @@
+import { vi, beforeEach, afterEach } from 'vitest';
+import type { AdResponse } from './types';
+
+/** Stands in for fetch, which the beacon queue sends impressions with */
+export const fetchMock = vi.fn();
+
+/**
+ * Send each test's impression beacons to `fetchMock`, and clear the queue's storage after it
+ */
+export function mockImpressionBeacons(): void {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(new Response(null));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+}
+
+let adCount = 0;
+
+/**
+ * An ad with an impression URL of its own, since each impression is counted once per page
+ */
+export function createAd(overrides: Partial<AdResponse> = {}): AdResponse {
+  adCount++;
+  return {
+    adText: 'Test ad',
+    impUrl: `https://tracking.example.com/imp-${adCount}`,
+    clickUrl: 'https://example.com/landing',
+    ...overrides,
+  };
+}
+
+/** How many times an ad's impression was sent */
+export const impressionsFor = (ad: AdResponse) => fetchMock.mock.calls.filter(([url]) => url === ad.impUrl).length;
@@ -1,46 +1,50 @@
 import type { CSSProperties, ReactNode } from 'react';
+import type {
+  AdResponse,
+  AdPlacement,
+  AdClickEvent,
+  AdTheme,
+  AdSize,
+  TextDirection,
+  BeaconResult,
+  ViewabilityOptions,
+  HydrateAdOptions,
+} from '@gravity-ai/core';
+import type { InlineAdRules } from './inline';
+
+export type {
+  AdResponse,
+  AdPlacement,
+  AdClickType,
+  AdClickEvent,
+  AdThemePreset,
+  GravityTheme,
+  TextDirection,
+  AdTheme,
+  AdSize,
+} from '@gravity-ai/core';
 
 /**
- * Ad response from the Gravity API
- * This mirrors the type from @gravity-ai/api for convenience
- */
-export interface AdResponse {
-  /** The advertisement copy text */
-  adText: string;
-  /** Ad title */
-  title?: string;
-  /** Call-to-action text (e.g., 'Learn More', 'Shop Now') */
-  cta?: string;
-  /** Brand/advertiser name */
-  brandName?: string;
-  /** Landing page URL */
-  url?: string;
-  /** Favicon URL */
-  favicon?: string;
-  /** Impression tracking URL - fire this when ad is displayed */
-  impUrl?: string;
-  /** Click-through tracking URL - use this as href for ad clicks */
-  clickUrl?: string;
-}
-
-/**
- * Visual theme presets for the ad banner
+ * Props for the GravityThemeProvider component
  */
-export type AdTheme = 'light' | 'dark' | 'minimal' | 'branded';
+export interface GravityThemeProviderProps {
+  /** Theme for every ad inside the provider that does not set its own */
+  theme: AdTheme;
 
-/**
- * Banner size presets
- */
-export type AdSize = 'small' | 'medium' | 'large' | 'responsive';
+  children?: ReactNode;
+}
 
 /**
  * Props for the AdBanner component
  */
 export interface AdBannerProps {
-  /** The ad response from Gravity API */
-  ad: AdResponse | null;
+  /** The ad response from Gravity API, or all ads returned for the request */
+  ad: AdResponse | AdResponse[] | null;
 
-  /** Visual theme preset */
+  /** Render the ad for this placement_id (default: the first ad) */
+  placementId?: string;
+
+  /** Visual theme (default: the GravityThemeProvider theme, or "light") */
   theme?: AdTheme;
 
   /** Size preset */
@@ -61,20 +65,29 @@ export interface AdBannerProps {
   /** Whether to show the "Sponsored" label */
   showLabel?: boolean;
 
-  /** Custom label text (default: "Sponsored") */
+  /** Custom label text (default: "Sponsored", translated for the locale) */
   labelText?: string;
 
+  /** BCP 47 language tag for the label and text direction (default: the GravityProvider locale) */
+  locale?: string;
+
+  /** Text direction (default: from the locale, else inherited from the page) */
+  dir?: TextDirection;
+
   /** Custom styles for the label */
   labelStyle?: CSSProperties;
 
   /** Custom click handler (called in addition to tracking) */
   onClick?: () => void;
 
-  /** Callback when impression is tracked */
-  onImpression?: () => void;
+  /** Callback when the impression beacon is delivered or given up */
+  onImpression?: (result: BeaconResult) => void;
 
-  /** Callback when click is tracked */
-  onClickTracked?: () => void;
+  /** Callback with details of each tracked click */
+  onClickTracked?: (event: AdClickEvent) => void;
+
+  /** Ignore repeat clicks within this many milliseconds (default: 500) */
+  doubleClickMs?: number;
 
   /** Custom content to render when ad is null */
   fallback?: ReactNode;
@@ -82,6 +95,9 @@ export interface AdBannerProps {
   /** Whether to disable automatic impression tracking */
   disableImpressionTracking?: boolean;
 
+  /** Count the impression only once the ad is viewable, optionally with custom thresholds (default: false) */
+  viewability?: boolean | ViewabilityOptions;
+
   /** Whether to open link in new tab (default: true) */
   openInNewTab?: boolean;
 
@@ -98,12 +114,23 @@ export interface AdBannerProps {
   accentColor?: string;
 }
 
+/**
+ * Props for the AdCard component
+ */
+export interface AdCardProps extends AdBannerProps {
+  /** Whether to show the favicon, or the brand's initial when it is missing (default: true) */
+  showFavicon?: boolean;
+}
+
 /**
  * Props for the AdText component (minimal text-only rendering)
  */
 export interface AdTextProps {
-  /** The ad response from Gravity API */
-  ad: AdResponse | null;
+  /** The ad response from Gravity API, or all ads returned for the request */
+  ad: AdResponse | AdResponse[] | null;
+
+  /** Render the ad for this placement_id (default: the first ad) */
+  placementId?: string;
 
   /** Custom class name */
   className?: string;
@@ -114,11 +141,14 @@ export interface AdTextProps {
   /** Custom click handler */
   onClick?: () => void;
 
-  /** Callback when impression is tracked */
-  onImpression?: () => void;
+  /** Callback when the impression beacon is delivered or given up */
+  onImpression?: (result: BeaconResult) => void;
+
+  /** Callback with details of each tracked click */
+  onClickTracked?: (event: AdClickEvent) => void;
 
-  /** Callback when click is tracked */
-  onClickTracked?: () => void;
+  /** Ignore repeat clicks within this many milliseconds (default: 500) */
+  doubleClickMs?: number;
 
   /** Content to render when ad is null */
   fallback?: ReactNode;
@@ -126,7 +156,217 @@ export interface AdTextProps {
   /** Whether to disable automatic impression tracking */
   disableImpressionTracking?: boolean;
 
+  /** Count the impression only once the ad is viewable, optionally with custom thresholds (default: false) */
+  viewability?: boolean | ViewabilityOptions;
+
   /** Whether to open link in new tab (default: true) */
   openInNewTab?: boolean;
+
+  /** Disclosure read by screen readers before the ad text (default: "Sponsored", translated for the locale) */
+  labelText?: string;
+
+  /** BCP 47 language tag for the disclosure and text direction (default: the GravityProvider locale) */
+  locale?: string;
+
+  /** Text direction (default: from the locale, else inherited from the page) */
+  dir?: TextDirection;
+}
+
+/**
+ * A conversation message sent with an ad request
+ */
+export interface ChatMessage {
+  /** Who sent the message */
+  role: 'user' | 'assistant';
+  /** Message text */
+  content: string;
+}
+
+/**
+ * Ad request parameters
+ * This mirrors `AdParams` from @gravity-ai/api for convenience
+ */
+export interface AdRequest {
+  messages: ChatMessage[];
+  sessionId: string;
+  placements: { placement: AdPlacement; placement_id: string }[];
+  userId?: string;
+  device?: Record<string, unknown>;
+  locale?: string;
+  user?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Outcome of an ad request
+ * This mirrors `AdResult` from @gravity-ai/api for convenience
+ */
+export type AdRequestResult =
+  | { kind: 'filled'; ads: AdResponse[] }
+  | { kind: 'no_fill' }
+  | { kind: 'capped'; rule: string }
+  | { kind: 'error'; error: Error };
+
+/**
+ * The part of the @gravity-ai/api `Client` used by GravityProvider
+ */
+export interface GravityClient {
+  getAdResult(params: AdRequest, options?: { signal?: AbortSignal }): Promise<AdRequestResult>;
+  /** Called when an ad's impression is queued, so a cached response never serves it again */
+  markImpression?(ad: AdResponse): Promise<void>;
+}
+
+/**
+ * Props for the GravityProvider component
+ */
+export interface GravityProviderProps {
+  /** The @gravity-ai/api Client used for ad requests */
+  client: GravityClient;
+
+  /** Session ID sent with every request. Required here or on each useGravityAd call. */
+  sessionId?: string;
+
+  /** User ID sent with every request */
+  userId?: string;
+
+  /** User targeting data sent with every request */
+  user?: Record<string, unknown>;
+
+  /** Device data sent with every request */
+  device?: Record<string, unknown>;
+
+  /** BCP 47 language tag sent with every request, and used for ad labels and text direction */
+  locale?: string;
+
+  /** Disclosure labels that replace the built-in translations, by language tag (e.g. `{ de: 'Anzeige' }`) */
+  labels?: Record<string, string>;
+
+  children?: ReactNode;
+}
+
+/**
+ * Loading state of an ad requested with useGravityAd
+ */
+export type GravityAdStatus = 'idle' | 'loading' | 'filled' | 'no_fill' | 'capped' | 'error';
+
+/**
+ * Options for the useGravityAd hook
+ */
+export interface UseGravityAdOptions {
+  /** The conversation so far */
+  messages: ChatMessage[];
+
+  /** Where the ad is shown */
+  placement: AdPlacement;
+
+  /** ID of the placement (default: the placement) */
+  placementId?: string;
+
+  /** Whether the assistant is still streaming its reply; requests wait until it finishes */
+  isStreaming?: boolean;
+
+  /** Wait this long after the last message change before requesting, in milliseconds (default: 300) */
+  debounceMs?: number;
+
+  /** Set to false to skip requests (default: true) */
+  enabled?: boolean;
+
+  /** Overrides the provider's session ID */
+  sessionId?: string;
+}
+
+/**
+ * Return value of the useGravityAd hook
+ */
+export interface UseGravityAdResult {
+  /** The ad for the placement, or null */
+  ad: AdResponse | null;
+
+  /** Loading state of the latest request */
+  status: GravityAdStatus;
+
+  /** The error of the latest request, when status is 'error' */
+  error: Error | null;
+
+  /** Request a new ad right away */
+  refetch: () => void;
+}
+
+/**
+ * Props for the GravityAd component
+ */
+export interface GravityAdProps extends Omit<AdBannerProps, 'ad' | 'placementId' | 'fallback'> {
+  /** The conversation so far */
+  messages: ChatMessage[];
+
+  /** Where the ad is shown */
+  placement: AdPlacement;
+
+  /** ID of the placement (default: the placement) */
+  placementId?: string;
+
+  /** Whether the assistant is still streaming its reply; the request waits until it finishes */
+  isStreaming?: boolean;
+
+  /** Wait this long after the last message change before requesting, in milliseconds (default: 300) */
+  debounceMs?: number;
+
+  /** Set to false to skip requests (default: true) */
+  enabled?: boolean;
+
+  /** Render the ad as a banner, a card with brand, title and call to action, or plain text (default: "banner") */
+  variant?: 'banner' | 'card' | 'text';
+
+  /** Shown while the first ad loads; false to show nothing (default: a placeholder matching the theme) */
+  skeleton?: ReactNode | false;
+
+  /** Custom rendering for the filled ad, replacing AdBanner/AdText */
+  render?: (ad: AdResponse) => ReactNode;
+}
+
+/**
+ * Props for the InlineAdMessage component
+ */
+export interface InlineAdMessageProps extends Omit<AdBannerProps, 'ad' | 'placementId' | 'fallback' | 'showLabel'> {
+  /** The assistant's markdown response, or the chunks streamed so far */
+  content: string | readonly string[];
+
+  /** The ad to insert, or the ads of a multi-placement response */
+  ad: AdResponse | AdResponse[] | null;
+
+  /** Pick the ad for this placement from a multi-placement response */
+  placementId?: string;
+
+  /** Where the ad may be inserted */
+  rules?: InlineAdRules;
+
+  /** Whether the response is still streaming; the end of the text is not a safe boundary until it finishes */
+  isStreaming?: boolean;
+
+  /** Render a slice of the markdown (default: plain text with line breaks preserved) */
+  renderMarkdown?: (markdown: string) => ReactNode;
+
+  /** Render the ad as a banner or a card (default: "banner") */
+  variant?: 'banner' | 'card';
+}
+
+/**
+ * Props for the AdMarkup server component
+ */
+export interface AdMarkupProps
+  extends Omit<
+    AdCardProps,
+    'onClick' | 'onImpression' | 'onClickTracked' | 'doubleClickMs' | 'disableImpressionTracking' | 'viewability'
+  > {
+  /** Render the ad as a banner or a card (default: "banner") */
+  variant?: 'banner' | 'card';
+}
+
+/**
+ * Props for the AdIsland component
+ */
+export interface AdIslandProps extends HydrateAdOptions {
+  /** Server-rendered markup containing one or more AdMarkup ads */
+  children?: ReactNode;
 }
 
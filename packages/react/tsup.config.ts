@@ -0,0 +1,20 @@
+import { defineConfig } from 'tsup';
+
+const shared = {
+  format: ['cjs', 'esm'] as ('cjs' | 'esm')[],
+  dts: true,
+  external: ['react'],
+};
+
+export default defineConfig([
+  {
+    ...shared,
+    entry: { index: 'src/index.ts' },
+    // Components use hooks, so the main entry is a client module in React Server Components
+    banner: { js: "'use client';" },
+  },
+  {
+    ...shared,
+    entry: { server: 'src/server.ts' },
+  },
+]);
@@ -1,6 +1,11 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    // Test against the workspace source of @gravity-ai/core, without building it first
+    alias: { '@gravity-ai/core': fileURLToPath(new URL('../core/src/index.ts', import.meta.url)) },
+  },
   test: {
     environment: 'jsdom',
     setupFiles: ['./src/test-setup.ts'],
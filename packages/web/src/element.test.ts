@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { GravityAdElement, defineGravityAdElement } from './element';
+import { createTheme } from '@gravity-ai/core';
+import { createAd, mockImpressionBeacons } from './test-utils';
+
+mockImpressionBeacons();
+
+beforeAll(() => {
+  defineGravityAdElement();
+});
+
+afterEach(() => {
+  document.body.replaceChildren();
+});
+
+const linkIn = (element: HTMLElement) => element.shadowRoot?.querySelector('a') ?? null;
+
+describe('<gravity-ad>', () => {
+  it('registers the element once', () => {
+    defineGravityAdElement();
+    expect(customElements.get('gravity-ad')).toBe(GravityAdElement);
+    expect(document.createElement('gravity-ad')).toBeInstanceOf(GravityAdElement);
+  });
+
+  it('renders the ad set as a property', () => {
+    const element = document.createElement('gravity-ad');
+    element.ad = createAd();
+    document.body.append(element);
+
+    expect(linkIn(element)!.textContent).toBe('Sponsored: SponsoredTest ad');
+  });
+
+  it('renders the ad set as a JSON attribute', () => {
+    document.body.innerHTML = `<gravity-ad ad='${JSON.stringify(createAd({ adText: 'From HTML' }))}'></gravity-ad>`;
+    const element = document.querySelector('gravity-ad')!;
+
+    expect(linkIn(element)!.textContent).toContain('From HTML');
+  });
+
+  it('applies display attributes', () => {
+    const element = document.createElement('gravity-ad');
+    element.setAttribute('theme', 'branded');
+    element.setAttribute('show-label', 'false');
+    element.setAttribute('border-radius', '16');
+    element.ad = createAd();
+    document.body.append(element);
+
+    const link = linkIn(element)!;
+    expect(link.textContent).toBe('Sponsored: Test ad');
+    expect(link.style.backgroundColor).toBe('var(--gravity-ad-bg, #4f46e5)');
+    expect(link.style.borderRadius).toBe('16px');
+  });
+
+  it('re-renders when an attribute changes', () => {
+    const element = document.createElement('gravity-ad');
+    element.ad = createAd({ title: 'Card title' });
+    document.body.append(element);
+    expect(element.shadowRoot!.querySelector('strong')).toBeNull();
+
+    element.setAttribute('variant', 'card');
+    expect(element.shadowRoot!.querySelector('strong')!.textContent).toBe('Card title');
+  });
+
+  it('accepts a custom theme object', () => {
+    const element = document.createElement('gravity-ad');
+    element.theme = createTheme({ background: '#123456' });
+    element.ad = createAd();
+    document.body.append(element);
+
+    expect(linkIn(element)!.style.backgroundColor).toBe('var(--gravity-ad-bg, #123456)');
+  });
+
+  it('applies label translations set as a property or JSON attribute', () => {
+    const element = document.createElement('gravity-ad');
+    element.setAttribute('locale', 'de-DE');
+    element.setAttribute('labels', JSON.stringify({ de: 'Werbung' }));
+    element.ad = createAd();
+    document.body.append(element);
+    expect(linkIn(element)!.textContent).toBe('Werbung: WerbungTest ad');
+
+    element.labels = { de: 'Anzeige' };
+    expect(linkIn(element)!.textContent).toBe('Anzeige: AnzeigeTest ad');
+  });
+
+  it('fires impression and click events', async () => {
+    const ad = createAd();
+    const element = document.createElement('gravity-ad');
+    const onImpression = vi.fn();
+    const onClick = vi.fn();
+    document.body.addEventListener('gravity-impression', onImpression);
+    document.body.addEventListener('gravity-click', onClick);
+
+    element.ad = ad;
+    document.body.append(element);
+    linkIn(element)!.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true, detail: 1 }));
+
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect((onClick.mock.calls[0][0] as CustomEvent).detail).toMatchObject({ ad, type: 'primary' });
+    await vi.waitFor(() => expect(onImpression).toHaveBeenCalledTimes(1));
+    expect((onImpression.mock.calls[0][0] as CustomEvent).detail).toMatchObject({ url: ad.impUrl, success: true });
+
+    document.body.removeEventListener('gravity-impression', onImpression);
+    document.body.removeEventListener('gravity-click', onClick);
+  });
+
+  it('removes the ad when disconnected', () => {
+    const element = document.createElement('gravity-ad');
+    element.ad = createAd();
+    document.body.append(element);
+
+    element.remove();
+    expect(element.shadowRoot!.childNodes).toHaveLength(0);
+
+    document.body.append(element);
+    expect(linkIn(element)).not.toBeNull();
+  });
+});
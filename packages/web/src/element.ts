@@ -0,0 +1,178 @@
+import type { RenderAdOptions } from './types';
+import type { AdResponse, AdSize, AdTheme, TextDirection } from '@gravity-ai/core';
+import { renderAd } from './renderAd';
+
+// Lets this module load outside the browser, e.g. during server rendering
+const BaseElement = (typeof HTMLElement === 'undefined' ? class {} : HTMLElement) as typeof HTMLElement;
+
+/**
+ * Read a boolean attribute, where any value but "false" counts as true
+ */
+function booleanAttribute(value: string | null, defaultValue: boolean): boolean {
+  return value === null ? defaultValue : value !== 'false';
+}
+
+/**
+ * `<gravity-ad>` - A custom element that renders an ad with impression and click tracking
+ *
+ * Set the ad through the `ad` property, or as JSON in the `ad` attribute. Display options
+ * are attributes: `placement-id`, `variant`, `theme`, `size`, `label-text`, `locale`, `dir`,
+ * `show-label`, `open-in-new-tab`, `show-favicon`, `accent-color`, `background-color`,
+ * `text-color`, `border-radius`, `viewability` and `disable-impression-tracking`. A custom
+ * theme object can be set through the `theme` property, and label translations through
+ * the `labels` property or as JSON in the `labels` attribute.
+ *
+ * Fires `gravity-impression` (detail: BeaconResult) and `gravity-click` (detail: AdClickEvent).
+ *
+ * @example
+ * ```html
+ * <gravity-ad theme="dark" variant="card"></gravity-ad>
+ * <script type="module">
+ *   import { defineGravityAdElement } from '@gravity-ai/web';
+ *   defineGravityAdElement();
+ *
+ *   const element = document.querySelector('gravity-ad');
+ *   element.ad = await fetchAd();
+ *   element.addEventListener('gravity-click', (event) => console.log(event.detail.type));
+ * </script>
+ * ```
+ */
+export class GravityAdElement extends BaseElement {
+  static observedAttributes = [
+    'ad',
+    'placement-id',
+    'variant',
+    'theme',
+    'size',
+    'label-text',
+    'locale',
+    'labels',
+    'dir',
+    'show-label',
+    'open-in-new-tab',
+    'show-favicon',
+    'accent-color',
+    'background-color',
+    'text-color',
+    'border-radius',
+    'viewability',
+    'disable-impression-tracking',
+  ];
+
+  private adValue: AdResponse | AdResponse[] | null | undefined;
+  private themeValue: AdTheme | undefined;
+  private labelsValue: Record<string, string> | undefined;
+  private destroy: (() => void) | undefined;
+
+  /** The ad to render, or all ads returned for the request */
+  get ad(): AdResponse | AdResponse[] | null {
+    if (this.adValue !== undefined) {
+      return this.adValue;
+    }
+    try {
+      return JSON.parse(this.getAttribute('ad') ?? 'null');
+    } catch {
+      return null;
+    }
+  }
+
+  set ad(value: AdResponse | AdResponse[] | null) {
+    this.adValue = value;
+    this.render();
+  }
+
+  /** Visual theme, including custom theme objects (default: the `theme` attribute, or "light") */
+  get theme(): AdTheme {
+    return this.themeValue ?? ((this.getAttribute('theme') as AdTheme | null) || 'light');
+  }
+
+  set theme(value: AdTheme) {
+    this.themeValue = value;
+    this.render();
+  }
+
+  /** Labels that replace the built-in translations, by language tag (e.g. `{ de: 'Anzeige' }`) */
+  get labels(): Record<string, string> | undefined {
+    if (this.labelsValue !== undefined) {
+      return this.labelsValue;
+    }
+    try {
+      return JSON.parse(this.getAttribute('labels') ?? 'null') ?? undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  set labels(value: Record<string, string> | undefined) {
+    this.labelsValue = value;
+    this.render();
+  }
+
+  connectedCallback(): void {
+    this.render();
+  }
+
+  disconnectedCallback(): void {
+    this.destroy?.();
+    this.destroy = undefined;
+  }
+
+  attributeChangedCallback(): void {
+    this.render();
+  }
+
+  private get options(): RenderAdOptions {
+    const borderRadius = this.getAttribute('border-radius');
+
+    return {
+      placementId: this.getAttribute('placement-id') ?? undefined,
+      variant: this.getAttribute('variant') === 'card' ? 'card' : 'banner',
+      theme: this.theme,
+      size: (this.getAttribute('size') as AdSize | null) ?? undefined,
+      labelText: this.getAttribute('label-text') ?? undefined,
+      locale: this.getAttribute('locale') ?? undefined,
+      labels: this.labels,
+      dir: (this.getAttribute('dir') as TextDirection | null) ?? undefined,
+      showLabel: booleanAttribute(this.getAttribute('show-label'), true),
+      openInNewTab: booleanAttribute(this.getAttribute('open-in-new-tab'), true),
+      showFavicon: booleanAttribute(this.getAttribute('show-favicon'), true),
+      accentColor: this.getAttribute('accent-color') ?? undefined,
+      backgroundColor: this.getAttribute('background-color') ?? undefined,
+      textColor: this.getAttribute('text-color') ?? undefined,
+      borderRadius: borderRadius === null ? undefined : /^\d+$/.test(borderRadius) ? Number(borderRadius) : borderRadius,
+      viewability: booleanAttribute(this.getAttribute('viewability'), false),
+      disableImpressionTracking: booleanAttribute(this.getAttribute('disable-impression-tracking'), false),
+      onImpression: (result) =>
+        this.dispatchEvent(new CustomEvent('gravity-impression', { detail: result, bubbles: true, composed: true })),
+      onClickTracked: (event) =>
+        this.dispatchEvent(new CustomEvent('gravity-click', { detail: event, bubbles: true, composed: true })),
+    };
+  }
+
+  private render(): void {
+    if (!this.isConnected) {
+      return;
+    }
+    this.destroy = renderAd(this, this.ad, this.options);
+  }
+}
+
+/**
+ * Register the `<gravity-ad>` custom element
+ *
+ * Safe to call more than once, and does nothing outside the browser.
+ *
+ * @param tagName - Tag name to register (default: "gravity-ad")
+ */
+export function defineGravityAdElement(tagName = 'gravity-ad'): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) {
+    return;
+  }
+  customElements.define(tagName, GravityAdElement);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gravity-ad': GravityAdElement;
+  }
+}
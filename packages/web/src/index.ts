@@ -0,0 +1,25 @@
+// Rendering
+export { renderAd } from './renderAd';
+export { GravityAdElement, defineGravityAdElement } from './element';
+
+// Themes
+export { createTheme, getThemeVariables, presetThemes } from '@gravity-ai/core';
+
+// Locales
+export { getSponsoredLabel, getTextDirection } from '@gravity-ai/core';
+
+// Types
+export type { RenderAdOptions } from './types';
+export type {
+  AdResponse,
+  AdPlacement,
+  AdClickEvent,
+  AdClickType,
+  AdTheme,
+  AdThemePreset,
+  AdSize,
+  GravityTheme,
+  TextDirection,
+  BeaconResult,
+  ViewabilityOptions,
+} from '@gravity-ai/core';
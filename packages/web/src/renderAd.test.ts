@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderAd } from './renderAd';
+import { createAd, impressionsFor, mockImpressionBeacons } from './test-utils';
+
+mockImpressionBeacons();
+
+afterEach(() => {
+  document.body.replaceChildren();
+});
+
+function createHost(): HTMLElement {
+  const host = document.createElement('div');
+  document.body.append(host);
+  return host;
+}
+
+const linkIn = (host: HTMLElement) => host.shadowRoot!.querySelector('a')!;
+
+describe('renderAd', () => {
+  it('renders the ad inside a shadow root', () => {
+    const host = createHost();
+    renderAd(host, createAd());
+
+    expect(host.childNodes).toHaveLength(0);
+    const link = linkIn(host);
+    expect(link.textContent).toBe('Sponsored: SponsoredTest ad');
+    expect(link.getAttribute('href')).toBe('https://example.com/landing');
+    expect(link.getAttribute('rel')).toBe('noopener noreferrer sponsored');
+    expect(link.getAttribute('target')).toBe('_blank');
+  });
+
+  it('isolates the ad from inherited page styles', () => {
+    const host = createHost();
+    renderAd(host, createAd());
+    expect(host.shadowRoot!.querySelector('style')!.textContent).toContain('all: initial');
+  });
+
+  it('applies theme and size styles', () => {
+    const host = createHost();
+    renderAd(host, createAd(), { theme: 'dark', size: 'large', borderRadius: 20 });
+
+    const link = linkIn(host);
+    expect(link.style.backgroundColor).toBe('var(--gravity-ad-bg, #1a1a1a)');
+    expect(link.style.padding).toBe('16px 20px');
+    expect(link.style.borderRadius).toBe('20px');
+  });
+
+  it('renders a card', () => {
+    const host = createHost();
+    renderAd(host, createAd({ title: 'Acme', brandName: 'Acme Inc', cta: 'Try it' }), { variant: 'card' });
+
+    const link = linkIn(host);
+    expect(link.getAttribute('data-gravity-ad-layout')).toBe('card');
+    expect(link.querySelector('strong')!.textContent).toBe('Acme');
+    expect(link.textContent).toContain('Try it');
+    expect(link.querySelector('[data-gravity-ad-favicon]')!.textContent).toBe('A');
+  });
+
+  it('tracks the impression once', async () => {
+    const ad = createAd();
+    const host = createHost();
+    const onImpression = vi.fn();
+
+    renderAd(host, ad, { onImpression });
+    renderAd(host, ad, { onImpression });
+
+    await vi.waitFor(() => expect(onImpression).toHaveBeenCalledWith(expect.objectContaining({ success: true })));
+    expect(impressionsFor(ad)).toBe(1);
+  });
+
+  it('reports clicks', () => {
+    const host = createHost();
+    const ad = createAd();
+    const onClick = vi.fn();
+    const onClickTracked = vi.fn();
+    renderAd(host, ad, { onClick, onClickTracked });
+
+    linkIn(host).dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true, detail: 1 }));
+
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(onClickTracked).toHaveBeenCalledWith(expect.objectContaining({ ad, type: 'primary' }));
+  });
+
+  it('selects the ad for a placement', () => {
+    const host = createHost();
+    renderAd(host, [createAd({ placement_id: 'top' }), createAd({ adText: 'Bottom', placement_id: 'bottom' })], {
+      placementId: 'bottom',
+      showLabel: false,
+    });
+    expect(linkIn(host).textContent).toBe('Sponsored: Bottom');
+  });
+
+  it('replaces the previous ad and clears on null', () => {
+    const host = createHost();
+    renderAd(host, createAd({ adText: 'First' }), { showLabel: false });
+    renderAd(host, createAd({ adText: 'Second' }), { showLabel: false });
+
+    expect(host.shadowRoot!.querySelectorAll('a')).toHaveLength(1);
+    expect(linkIn(host).textContent).toBe('Sponsored: Second');
+
+    renderAd(host, null);
+    expect(host.shadowRoot!.childNodes).toHaveLength(0);
+  });
+
+  it('removes the ad when destroyed', () => {
+    const host = createHost();
+    const onClickTracked = vi.fn();
+    const destroy = renderAd(host, createAd(), { onClickTracked });
+    const link = linkIn(host);
+
+    destroy();
+
+    expect(host.shadowRoot!.childNodes).toHaveLength(0);
+    link.dispatchEvent(new MouseEvent('click', { detail: 1 }));
+    expect(onClickTracked).not.toHaveBeenCalled();
+  });
+
+  it('hides the visible label from screen readers behind a disclosure', () => {
+    const host = createHost();
+    renderAd(host, createAd());
+    const [disclosure, label] = Array.from(linkIn(host).querySelectorAll('span'));
+    expect(disclosure.textContent).toBe('Sponsored: ');
+    expect(disclosure.style.position).toBe('absolute');
+    expect(label.getAttribute('aria-hidden')).toBe('true');
+  });
+
+  it('translates the label and follows the text direction of the locale', () => {
+    const host = createHost();
+    renderAd(host, createAd(), { locale: 'ar-EG', labels: { ar: 'إعلان' } });
+    const link = linkIn(host);
+    expect(link.textContent).toBe('إعلان: إعلانTest ad');
+    expect(link.dir).toBe('rtl');
+  });
+
+  it('renders plain content instead of a link without a clickUrl', () => {
+    const host = createHost();
+    renderAd(host, createAd({ clickUrl: undefined }));
+    expect(host.shadowRoot!.querySelector('a')).toBeNull();
+    expect(host.shadowRoot!.querySelector('[data-gravity-ad]')!.tagName).toBe('DIV');
+  });
+
+  it('shows a focus ring on keyboard focus', () => {
+    const host = createHost();
+    renderAd(host, createAd());
+    const link = linkIn(host);
+    // jsdom doesn't match :focus-visible inside shadow roots
+    vi.spyOn(link, 'matches').mockReturnValue(true);
+
+    link.focus();
+    expect(link.style.outline).toBe('2px solid var(--gravity-ad-focus-ring, #4f46e5)');
+    expect(link.style.transform).toBe('translateY(-1px)');
+
+    link.blur();
+    expect(link.style.outline).toBe('');
+    expect(link.style.transform).toBe('');
+  });
+
+  it('lets the minimal theme inherit the host page text color and font', () => {
+    const host = createHost();
+    renderAd(host, createAd(), { theme: 'minimal' });
+
+    // jsdom only parses stylesheets in the document, not in shadow roots
+    const sheet = document.createElement('style');
+    sheet.textContent = host.shadowRoot!.querySelector('style')!.textContent;
+    document.head.append(sheet);
+    const hostRule = sheet.sheet!.cssRules[0] as CSSStyleRule;
+    sheet.remove();
+
+    expect(hostRule.selectorText).toBe(':host');
+    expect(hostRule.style.getPropertyValue('color')).toBe('inherit');
+    expect(hostRule.style.getPropertyValue('font')).toBe('inherit');
+    expect(linkIn(host).style.color).toBe('var(--gravity-ad-text, inherit)');
+  });
+
+  it('follows the OS color scheme with the auto theme through a stylesheet', () => {
+    const host = createHost();
+    const destroy = renderAd(host, createAd(), { theme: 'auto' });
+    const link = linkIn(host);
+
+    expect(link.getAttribute('data-gravity-theme')).toBe('auto');
+    expect(link.style.backgroundColor).toBe('var(--gravity-ad-bg, var(--gravity-ad-auto-bg))');
+    expect(link.querySelector('style')!.textContent).toContain('@media (prefers-color-scheme: dark)');
+
+    destroy();
+    expect(host.shadowRoot!.childNodes).toHaveLength(0);
+  });
+});
@@ -0,0 +1,162 @@
+import type { RenderAdOptions } from './types';
+import {
+  AdMarkupNode,
+  AdResponse,
+  buildAdMarkup,
+  getInteractionStyles,
+  InteractionState,
+  resolveTheme,
+  resolveAdLocale,
+  selectAd,
+  trackAdElement,
+} from '@gravity-ai/core';
+
+/** Style properties that take plain numbers; other numbers are pixels */
+const UNITLESS = new Set(['fontWeight', 'opacity', 'flexShrink', 'flexGrow', 'lineHeight', 'zIndex', 'order']);
+
+/**
+ * Keeps inherited page styles out of the shadow root, except the text color and font,
+ * which the "minimal" theme takes from the page
+ */
+const SHADOW_STYLES = ':host { all: initial; display: block; color: inherit; font: inherit; }';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/** Style properties changed by hover and keyboard focus */
+const INTERACTION_PROPERTIES = ['transform', 'boxShadow', 'outline', 'outlineOffset', 'transition'] as const;
+
+/** Cleanup for the ad currently rendered into each element */
+const rendered = new WeakMap<HTMLElement, () => void>();
+
+/**
+ * Apply React-style camelCase styles to an element
+ */
+function applyStyles(element: HTMLElement, styles: object): void {
+  for (const [property, value] of Object.entries(styles)) {
+    if (value === undefined || value === null) continue;
+    const cssValue = typeof value === 'number' && !UNITLESS.has(property) ? `${value}px` : String(value);
+    (element.style as unknown as Record<string, string>)[property] = cssValue;
+  }
+}
+
+function matchMedia(query: string): MediaQueryList | null {
+  return typeof window !== 'undefined' && typeof window.matchMedia === 'function' ? window.matchMedia(query) : null;
+}
+
+/**
+ * Whether an element was focused from the keyboard rather than by a click
+ */
+function isFocusVisible(element: Element): boolean {
+  try {
+    return element.matches(':focus-visible');
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Create the DOM for ad markup from `buildAdMarkup`
+ */
+function createMarkup(node: AdMarkupNode | string): Node {
+  if (typeof node === 'string') {
+    return document.createTextNode(node);
+  }
+
+  const element = document.createElement(node.tag);
+  for (const [name, value] of Object.entries(node.attributes)) {
+    element.setAttribute(name, value);
+  }
+  applyStyles(element, node.style);
+  element.append(...node.children.map(createMarkup));
+  return element;
+}
+
+/**
+ * Render an ad into an element, with impression and click tracking
+ *
+ * The ad is rendered inside the element's Shadow DOM, so page styles can't affect it;
+ * only the `--gravity-ad-*` CSS variables, text color and font are inherited from the page.
+ * Tracking follows the same rules as AdBanner from @gravity-ai/react: each impression is counted once per page, and repeat
+ * clicks within `doubleClickMs` are ignored. Rendering into the same element again
+ * replaces the previous ad.
+ *
+ * @param element - The element to render into
+ * @param ad - The ad, all ads returned for the request, or null to clear the element
+ * @param options - Display and tracking options
+ * @returns A function that removes the ad and its tracking
+ *
+ * @example
+ * ```ts
+ * const ads = await client.getAd({ messages, sessionId, placements });
+ * const destroy = renderAd(document.getElementById('ad')!, ads, {
+ *   theme: 'dark',
+ *   onClickTracked: (event) => analytics.track('ad_click', event),
+ * });
+ * ```
+ */
+export function renderAd(
+  element: HTMLElement,
+  ad: AdResponse | AdResponse[] | null,
+  options: RenderAdOptions = {}
+): () => void {
+  rendered.get(element)?.();
+
+  const root = element.shadowRoot ?? element.attachShadow({ mode: 'open' });
+  root.replaceChildren();
+
+  const selected = selectAd(ad, options.placementId);
+  if (!selected) {
+    rendered.delete(element);
+    return () => {};
+  }
+
+  const theme = resolveTheme(options.theme ?? 'light');
+
+  const style = document.createElement('style');
+  style.textContent = SHADOW_STYLES;
+  const { labelText, dir } = resolveAdLocale(options);
+  const link = createMarkup(buildAdMarkup(selected, theme, { ...options, labelText, dir })) as HTMLElement;
+  root.append(style, link);
+
+  // Hover and keyboard focus effects, for links only
+  const motionQuery = matchMedia(REDUCED_MOTION_QUERY);
+  const resting = INTERACTION_PROPERTIES.map((property) => [property, link.style[property]] as const);
+  const interaction: InteractionState = { hovered: false, focusVisible: false, reducedMotion: !!motionQuery?.matches };
+  const updateInteraction = (changes: Partial<InteractionState>) => {
+    Object.assign(interaction, changes);
+    for (const [property, value] of resting) {
+      link.style[property] = value;
+    }
+    applyStyles(link, getInteractionStyles(theme, interaction, options.accentColor));
+  };
+  const handleMouseEnter = () => updateInteraction({ hovered: true });
+  const handleMouseLeave = () => updateInteraction({ hovered: false });
+  const handleFocus = () => updateInteraction({ focusVisible: isFocusVisible(link) });
+  const handleBlur = () => updateInteraction({ focusVisible: false });
+  const handleMotionChange = () => updateInteraction({ reducedMotion: !!motionQuery?.matches });
+  const handleClick = () => options.onClick?.();
+  if (selected.clickUrl) {
+    updateInteraction({});
+    link.addEventListener('mouseenter', handleMouseEnter);
+    link.addEventListener('mouseleave', handleMouseLeave);
+    link.addEventListener('focus', handleFocus);
+    link.addEventListener('blur', handleBlur);
+    motionQuery?.addEventListener?.('change', handleMotionChange);
+  }
+  link.addEventListener('click', handleClick);
+
+  const stopTracking = trackAdElement(link, selected, options);
+
+  let active = true;
+  const cleanup = () => {
+    // A stale cleanup, after the element was rendered again, has nothing left to remove
+    if (!active) return;
+    active = false;
+    stopTracking();
+    motionQuery?.removeEventListener?.('change', handleMotionChange);
+    root.replaceChildren();
+    rendered.delete(element);
+  };
+  rendered.set(element, cleanup);
+  return cleanup;
+}
@@ -0,0 +1,54 @@
+import type { AdTheme, AdSize, HydrateAdOptions, TextDirection } from '@gravity-ai/core';
+
+/**
+ * Options for `renderAd`
+ */
+export interface RenderAdOptions extends HydrateAdOptions {
+  /** Render the ad for this placement_id (default: the first ad) */
+  placementId?: string;
+
+  /** Render the ad as a banner or a card with brand, title and call to action (default: "banner") */
+  variant?: 'banner' | 'card';
+
+  /** Visual theme: a preset, "auto" to follow the OS color scheme, or a custom theme (default: "light") */
+  theme?: AdTheme;
+
+  /** Size preset (default: "medium") */
+  size?: AdSize;
+
+  /** Show the "Sponsored" label (default: true) */
+  showLabel?: boolean;
+
+  /** Custom label text (default: "Sponsored", translated for the locale) */
+  labelText?: string;
+
+  /** BCP 47 language tag for the label and text direction */
+  locale?: string;
+
+  /** Labels that replace the built-in translations, by language tag (e.g. `{ de: 'Anzeige' }`) */
+  labels?: Record<string, string>;
+
+  /** Text direction (default: from the locale, else inherited from the page) */
+  dir?: TextDirection;
+
+  /** Open the link in a new tab (default: true) */
+  openInNewTab?: boolean;
+
+  /** Custom border radius */
+  borderRadius?: number | string;
+
+  /** Custom background color (overrides theme) */
+  backgroundColor?: string;
+
+  /** Custom text color (overrides theme) */
+  textColor?: string;
+
+  /** Custom accent color for the label, favicon placeholder and call to action */
+  accentColor?: string;
+
+  /** Show the favicon or brand initial in the card variant (default: true) */
+  showFavicon?: boolean;
+
+  /** Called when the ad is clicked */
+  onClick?: () => void;
+}